@@ -1,67 +1,86 @@
 import type { FirebaseOptions } from 'firebase/app';
+import { env } from '$env/dynamic/public';
 import {
-	PUBLIC_FIREBASE_API_KEY,
-	PUBLIC_FIREBASE_AUTH_DOMAIN,
-	PUBLIC_FIREBASE_PROJECT_ID,
-	PUBLIC_FIREBASE_STORAGE_BUCKET,
-	PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
-	PUBLIC_FIREBASE_APP_ID,
-	PUBLIC_FIREBASE_MEASUREMENT_ID
-} from '$env/static/public';
-import { type FirebaseEnvVars, isValidFirebaseConfig } from './types/firebase.js';
+	type EmulatorConfig,
+	type EmulatorEndpoint,
+	type FirebaseEnvVars,
+	type FirebaseOptionsSource,
+	DEFAULT_APP_NAME,
+	isValidFirebaseConfig
+} from './types/firebase.js';
 /**
  * @module FirebaseConfig
  */
 
 /**
- * Singleton class that manages Firebase configuration.
- * Implements the Singleton pattern to ensure only one Firebase config instance exists.
+ * Singleton class that manages Firebase configuration for every named app.
+ * Configurations are registered programmatically (see `createFirekit`) or, for the
+ * default app, read from `PUBLIC_FIREBASE_*` environment variables on first use.
  *
  * @example
- * // Get Firebase configuration
- * const config = FirebaseConfig.getInstance().getConfig();
+ * // Register a secondary app configuration
+ * firebaseConfig.register({ apiKey: '...', projectId: 'warehouse' }, 'warehouse');
  *
- * // Initialize Firebase app
- * const app = initializeApp(config);
- *
- * @throws {Error} If any required Firebase configuration variables are missing or invalid
+ * // Resolve configuration for an app
+ * const config = firebaseConfig.getConfig('warehouse');
  */
 class FirebaseConfig {
 	private static instance: FirebaseConfig;
-	private readonly config: FirebaseOptions;
+	private readonly sources = new Map<string, FirebaseOptionsSource>();
+	private readonly configs = new Map<string, FirebaseOptions>();
+
+	/** @private */
+	private constructor() {}
 
 	/**
-	 * Private constructor to prevent direct instantiation.
-	 * Validates all required environment variables are present and creates config.
+	 * Gets the Firebase configuration from environment variables.
 	 *
 	 * @private
-	 * @throws {Error} If any required Firebase configuration variables are missing or invalid
+	 * @returns {Partial<FirebaseEnvVars>} The Firebase configuration
 	 */
-	private constructor() {
-		const config = this.getFirebaseConfig();
-		if (!isValidFirebaseConfig(config)) {
-			throw new Error('Invalid Firebase configuration. Please check your environment variables.');
-		}
-
-		this.config = config;
+	private getEnvConfig(): Partial<FirebaseEnvVars> {
+		return {
+			apiKey: env.PUBLIC_FIREBASE_API_KEY,
+			authDomain: env.PUBLIC_FIREBASE_AUTH_DOMAIN,
+			projectId: env.PUBLIC_FIREBASE_PROJECT_ID,
+			storageBucket: env.PUBLIC_FIREBASE_STORAGE_BUCKET,
+			messagingSenderId: env.PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
+			appId: env.PUBLIC_FIREBASE_APP_ID,
+			measurementId: env.PUBLIC_FIREBASE_MEASUREMENT_ID
+		};
 	}
 
 	/**
-	 * Gets the Firebase configuration from environment variables.
+	 * Reads an emulator endpoint from a `PUBLIC_FIREBASE_EMULATOR_*_PORT` variable.
 	 *
 	 * @private
-	 * @returns {Partial<FirebaseEnvVars>} The Firebase configuration
+	 * @param {string} service Service suffix of the environment variable
+	 * @returns {EmulatorEndpoint | undefined} The endpoint, or undefined if unset
 	 */
-	private getFirebaseConfig(): Partial<FirebaseEnvVars> {
-		return {
-			apiKey: PUBLIC_FIREBASE_API_KEY,
-			authDomain: PUBLIC_FIREBASE_AUTH_DOMAIN,
-			projectId: PUBLIC_FIREBASE_PROJECT_ID,
-			storageBucket: PUBLIC_FIREBASE_STORAGE_BUCKET,
-			messagingSenderId: PUBLIC_FIREBASE_MESSAGING_SENDER_ID,
-			appId: PUBLIC_FIREBASE_APP_ID,
-			measurementId: PUBLIC_FIREBASE_MEASUREMENT_ID
+	private getEnvEmulatorEndpoint(service: string): EmulatorEndpoint | undefined {
+		const port = Number(env[`PUBLIC_FIREBASE_EMULATOR_${service}_PORT`]);
+		return Number.isInteger(port) && port > 0 ? { port } : undefined;
+	}
+
+	/**
+	 * Gets the Local Emulator Suite configuration from environment variables.
+	 * Only endpoints whose `PUBLIC_FIREBASE_EMULATOR_*_PORT` variable is set are returned.
+	 *
+	 * @returns {EmulatorConfig | undefined} The emulator configuration, or undefined if none is set
+	 */
+	getEnvEmulatorConfig(): EmulatorConfig | undefined {
+		const config: EmulatorConfig = {
+			host: env.PUBLIC_FIREBASE_EMULATOR_HOST || undefined,
+			firestore: this.getEnvEmulatorEndpoint('FIRESTORE'),
+			auth: this.getEnvEmulatorEndpoint('AUTH'),
+			database: this.getEnvEmulatorEndpoint('DATABASE'),
+			storage: this.getEnvEmulatorEndpoint('STORAGE'),
+			functions: this.getEnvEmulatorEndpoint('FUNCTIONS')
 		};
+
+		const hasEndpoint =
+			config.firestore || config.auth || config.database || config.storage || config.functions;
+		return hasEndpoint ? config : undefined;
 	}
 
 	/**
@@ -69,7 +88,6 @@ class FirebaseConfig {
 	 * Creates a new instance if one doesn't exist.
 	 *
 	 * @returns {FirebaseConfig} The singleton FirebaseConfig instance
-	 * @throws {Error} If any required Firebase configuration variables are missing or invalid
 	 */
 	static getInstance(): FirebaseConfig {
 		if (!FirebaseConfig.instance) {
@@ -79,23 +97,69 @@ class FirebaseConfig {
 	}
 
 	/**
-	 * Gets the Firebase configuration options.
+	 * Registers Firebase options (or a loader returning them) for a named app.
+	 * Loaders are invoked lazily the first time the configuration is requested.
+	 *
+	 * @param {FirebaseOptionsSource} source Firebase options or a loader function
+	 * @param {string} [name] App name, defaults to the default app
+	 */
+	register(source: FirebaseOptionsSource, name: string = DEFAULT_APP_NAME): void {
+		this.sources.set(name, source);
+		this.configs.delete(name);
+	}
+
+	/**
+	 * Checks whether a configuration is available for the given app.
 	 *
+	 * @param {string} [name] App name, defaults to the default app
+	 * @returns {boolean} True if options were registered (or the default app has env config)
+	 */
+	has(name: string = DEFAULT_APP_NAME): boolean {
+		if (this.sources.has(name) || this.configs.has(name)) return true;
+		return name === DEFAULT_APP_NAME && isValidFirebaseConfig(this.getEnvConfig());
+	}
+
+	/**
+	 * Gets the Firebase configuration options for an app.
+	 *
+	 * @param {string} [name] App name, defaults to the default app
 	 * @returns {FirebaseOptions} The Firebase configuration options
+	 * @throws {Error} If no configuration is registered or the env configuration is invalid
 	 */
-	getConfig(): FirebaseOptions {
-		return this.config;
+	getConfig(name: string = DEFAULT_APP_NAME): FirebaseOptions {
+		const cached = this.configs.get(name);
+		if (cached) return cached;
+
+		const source = this.sources.get(name);
+		let config: FirebaseOptions;
+
+		if (source) {
+			config = typeof source === 'function' ? source() : source;
+		} else if (name === DEFAULT_APP_NAME) {
+			const envConfig = this.getEnvConfig();
+			if (!isValidFirebaseConfig(envConfig)) {
+				throw new Error(
+					'Invalid Firebase configuration. Please check your environment variables or call createFirekit().'
+				);
+			}
+			config = envConfig;
+		} else {
+			throw new Error(`No Firebase configuration registered for app "${name}".`);
+		}
+
+		this.configs.set(name, config);
+		return config;
 	}
 }
 
 /**
- * Pre-initialized Firebase configuration instance.
- * Use this to get Firebase configuration options directly.
+ * Pre-initialized Firebase configuration registry.
+ * Use this to register or read Firebase configuration options directly.
  *
  * @example
- * import { firebaseConfig } from './firebase-config';
+ * import { firebaseConfig } from 'svelte-firekit';
  * import { initializeApp } from 'firebase/app';
  *
- * const app = initializeApp(firebaseConfig);
+ * const app = initializeApp(firebaseConfig.getConfig());
  */
-export const firebaseConfig = FirebaseConfig.getInstance().getConfig();
+export const firebaseConfig = FirebaseConfig.getInstance();
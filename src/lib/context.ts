@@ -0,0 +1,199 @@
+import { getContext, setContext } from 'svelte';
+import type { FirebaseApp } from 'firebase/app';
+import type { Firestore } from 'firebase/firestore';
+import type { Auth } from 'firebase/auth';
+import type { Functions } from 'firebase/functions';
+import type { Database } from 'firebase/database';
+import type { FirebaseStorage } from 'firebase/storage';
+import type { Analytics } from 'firebase/analytics';
+import type { AppCheck } from 'firebase/app-check';
+import type { FirebaseContext, FirekitAppOptions } from './types/firebase.js';
+/**
+ * @module FirebaseContext
+ */
+
+/** Context keys for the instances provided by <FirebaseApp> */
+const CONTEXT_KEYS = {
+	app: Symbol('firekit/app'),
+	auth: Symbol('firekit/auth'),
+	firestore: Symbol('firekit/firestore'),
+	storage: Symbol('firekit/storage'),
+	database: Symbol('firekit/database'),
+	analytics: Symbol('firekit/analytics'),
+	functions: Symbol('firekit/functions'),
+	appCheck: Symbol('firekit/app-check')
+} as const satisfies Record<keyof FirebaseContext, symbol>;
+
+/**
+ * Provides the Firebase app to child components.
+ * Must be called during component initialization.
+ *
+ * @param {FirebaseApp} app Firebase app
+ * @returns {FirebaseApp} The provided app
+ */
+export function setFirebaseContext(app: FirebaseApp): FirebaseApp {
+	return setContext(CONTEXT_KEYS.app, app);
+}
+
+/**
+ * Gets the Firebase app provided by the nearest <FirebaseApp>.
+ * Must be called during component initialization.
+ *
+ * @returns {FirebaseApp | undefined} The provided app, if any
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   import { getFirebaseContext } from 'svelte-firekit';
+ *   const appName = getFirebaseContext()?.name;
+ * </script>
+ * ```
+ */
+export function getFirebaseContext(): FirebaseApp | undefined {
+	return getContext(CONTEXT_KEYS.app);
+}
+
+/**
+ * Provides an Auth instance to child components
+ * @param {Auth} auth Auth instance
+ * @returns {Auth} The provided instance
+ */
+export function setAuthContext(auth: Auth): Auth {
+	return setContext(CONTEXT_KEYS.auth, auth);
+}
+
+/**
+ * Gets the Auth instance provided by the nearest <FirebaseApp>
+ * @returns {Auth | undefined} The provided instance, if any
+ */
+export function getAuthContext(): Auth | undefined {
+	return getContext(CONTEXT_KEYS.auth);
+}
+
+/**
+ * Provides a Firestore instance to child components
+ * @param {Firestore} firestore Firestore instance
+ * @returns {Firestore} The provided instance
+ */
+export function setFirestoreContext(firestore: Firestore): Firestore {
+	return setContext(CONTEXT_KEYS.firestore, firestore);
+}
+
+/**
+ * Gets the Firestore instance provided by the nearest <FirebaseApp>
+ * @returns {Firestore | undefined} The provided instance, if any
+ */
+export function getFirestoreContext(): Firestore | undefined {
+	return getContext(CONTEXT_KEYS.firestore);
+}
+
+/**
+ * Provides a Storage instance to child components
+ * @param {FirebaseStorage} storage Storage instance
+ * @returns {FirebaseStorage} The provided instance
+ */
+export function setStorageContext(storage: FirebaseStorage): FirebaseStorage {
+	return setContext(CONTEXT_KEYS.storage, storage);
+}
+
+/**
+ * Gets the Storage instance provided by the nearest <FirebaseApp>
+ * @returns {FirebaseStorage | undefined} The provided instance, if any
+ */
+export function getStorageContext(): FirebaseStorage | undefined {
+	return getContext(CONTEXT_KEYS.storage);
+}
+
+/**
+ * Provides a Realtime Database instance to child components
+ * @param {Database} database Realtime Database instance
+ * @returns {Database} The provided instance
+ */
+export function setDatabaseContext(database: Database): Database {
+	return setContext(CONTEXT_KEYS.database, database);
+}
+
+/**
+ * Gets the Realtime Database instance provided by the nearest <FirebaseApp>
+ * @returns {Database | undefined} The provided instance, if any
+ */
+export function getDatabaseContext(): Database | undefined {
+	return getContext(CONTEXT_KEYS.database);
+}
+
+/**
+ * Provides an Analytics instance to child components
+ * @param {Analytics} analytics Analytics instance
+ * @returns {Analytics} The provided instance
+ */
+export function setAnalyticsContext(analytics: Analytics): Analytics {
+	return setContext(CONTEXT_KEYS.analytics, analytics);
+}
+
+/**
+ * Gets the Analytics instance provided by the nearest <FirebaseApp>
+ * @returns {Analytics | undefined} The provided instance, if any
+ */
+export function getAnalyticsContext(): Analytics | undefined {
+	return getContext(CONTEXT_KEYS.analytics);
+}
+
+/**
+ * Provides a Cloud Functions instance to child components
+ * @param {Functions} functions Cloud Functions instance
+ * @returns {Functions} The provided instance
+ */
+export function setFunctionsContext(functions: Functions): Functions {
+	return setContext(CONTEXT_KEYS.functions, functions);
+}
+
+/**
+ * Gets the Cloud Functions instance provided by the nearest <FirebaseApp>
+ * @returns {Functions | undefined} The provided instance, if any
+ */
+export function getFunctionsContext(): Functions | undefined {
+	return getContext(CONTEXT_KEYS.functions);
+}
+
+/**
+ * Provides an App Check instance to child components
+ * @param {AppCheck} appCheck App Check instance
+ * @returns {AppCheck} The provided instance
+ */
+export function setAppCheckContext(appCheck: AppCheck): AppCheck {
+	return setContext(CONTEXT_KEYS.appCheck, appCheck);
+}
+
+/**
+ * Gets the App Check instance provided by the nearest <FirebaseApp>
+ * @returns {AppCheck | undefined} The provided instance, if any
+ */
+export function getAppCheckContext(): AppCheck | undefined {
+	return getContext(CONTEXT_KEYS.appCheck);
+}
+
+/**
+ * Resolves the Firebase instances a service or component should prefer over `firebaseService`:
+ * `options.context` if given, otherwise every instance provided by the nearest <FirebaseApp>.
+ * Returns an empty object outside component initialization, or when `options.app` names
+ * a different app than the provided one.
+ * Firekit components call it during initialization, so they use the app provided by
+ * <FirebaseApp>, if any, and fall back to the default app otherwise.
+ *
+ * @param {FirekitAppOptions} [options] Options of the caller
+ * @returns {FirebaseContext} The instances to prefer
+ */
+export function resolveFirebaseContext(options: FirekitAppOptions = {}): FirebaseContext {
+	if (options.context) return options.context;
+
+	try {
+		if (options.app && options.app !== getFirebaseContext()?.name) return {};
+
+		return Object.fromEntries(
+			Object.entries(CONTEXT_KEYS).map(([service, key]) => [service, getContext(key)])
+		) as FirebaseContext;
+	} catch {
+		// Not called during component initialization
+		return {};
+	}
+}
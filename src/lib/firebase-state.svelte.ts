@@ -0,0 +1,114 @@
+import { untrack } from 'svelte';
+import {
+	FirebaseServiceStatus,
+	type FirebaseServiceKind,
+	type FirebaseServiceStatusEntry
+} from './types/firebase.js';
+
+const SERVICE_KINDS: FirebaseServiceKind[] = [
+	'firestore',
+	'auth',
+	'functions',
+	'database',
+	'storage',
+	'analytics',
+	'appCheck'
+];
+
+/**
+ * Creates the status entry of a service that has not been initialized
+ * @returns {FirebaseServiceStatusEntry} Uninitialized status entry
+ */
+function createEntry(): FirebaseServiceStatusEntry {
+	return { status: FirebaseServiceStatus.UNINITIALIZED, error: null };
+}
+
+/**
+ * Reactive initialization status of a Firebase app and each of its services.
+ * Uses Svelte 5 runes, so status reads in components and effects update automatically.
+ *
+ * @example
+ * ```svelte
+ * {#if firebaseService.state.services.analytics.status === 'ERROR'}
+ *   <p>Analytics is unavailable in this browser.</p>
+ * {/if}
+ * ```
+ */
+export class FirebaseServiceState {
+	private _app = $state<FirebaseServiceStatusEntry>(createEntry());
+	private _services = $state(
+		Object.fromEntries(SERVICE_KINDS.map((service) => [service, createEntry()])) as Record<
+			FirebaseServiceKind,
+			FirebaseServiceStatusEntry
+		>
+	);
+
+	/** Gets the Firebase app status */
+	get status(): FirebaseServiceStatus {
+		return this._app.status;
+	}
+
+	/** Gets the Firebase app initialization error */
+	get error(): Error | null {
+		return this._app.error;
+	}
+
+	/** Gets the status of every service */
+	get services(): Readonly<Record<FirebaseServiceKind, Readonly<FirebaseServiceStatusEntry>>> {
+		return this._services;
+	}
+
+	/**
+	 * Updates the Firebase app status
+	 * @param {FirebaseServiceStatus} status New status
+	 * @param {Error | null} [error] Initialization error
+	 */
+	setApp(status: FirebaseServiceStatus, error: Error | null = null): void {
+		this.update(this._app, status, error);
+	}
+
+	/**
+	 * Updates the status of a service
+	 * @param {FirebaseServiceKind} service Service name
+	 * @param {FirebaseServiceStatus} status New status
+	 * @param {Error | null} [error] Initialization error
+	 */
+	setService(
+		service: FirebaseServiceKind,
+		status: FirebaseServiceStatus,
+		error: Error | null = null
+	): void {
+		this.update(this._services[service], status, error);
+	}
+
+	/**
+	 * Resets the app and every service to uninitialized
+	 * @param {FirebaseServiceKind[]} [keep] Services whose status is kept
+	 */
+	reset(keep: FirebaseServiceKind[] = []): void {
+		this.setApp(FirebaseServiceStatus.UNINITIALIZED);
+		for (const service of SERVICE_KINDS) {
+			if (!keep.includes(service)) {
+				this.setService(service, FirebaseServiceStatus.UNINITIALIZED);
+			}
+		}
+	}
+
+	/**
+	 * Writes a status entry if it changed.
+	 * Services are often first accessed while a component derives its state,
+	 * so the write is untracked to keep it legal there.
+	 * @private
+	 */
+	private update(
+		entry: FirebaseServiceStatusEntry,
+		status: FirebaseServiceStatus,
+		error: Error | null
+	): void {
+		untrack(() => {
+			if (entry.status === status && entry.error === error) return;
+			entry.status = status;
+			entry.error = error;
+		});
+	}
+}
@@ -1,26 +1,53 @@
 import { initializeApp, getApps } from 'firebase/app';
 import {
 	initializeFirestore,
+	connectFirestoreEmulator,
+	terminate,
+	clearIndexedDbPersistence,
 	CACHE_SIZE_UNLIMITED,
+	memoryLocalCache,
+	memoryLruGarbageCollector,
 	persistentLocalCache,
 	persistentMultipleTabManager,
+	persistentSingleTabManager,
 	enablePersistentCacheIndexAutoCreation,
-	getPersistentCacheIndexManager
+	getPersistentCacheIndexManager,
+	type Firestore,
+	type FirestoreSettings
 } from 'firebase/firestore';
-import { getAuth } from 'firebase/auth';
-import { getFunctions } from 'firebase/functions';
-import { getDatabase } from 'firebase/database';
-import { getStorage } from 'firebase/storage';
+import { getAuth, connectAuthEmulator } from 'firebase/auth';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
+import { getDatabase, connectDatabaseEmulator } from 'firebase/database';
+import { getStorage, connectStorageEmulator } from 'firebase/storage';
 import { getAnalytics } from 'firebase/analytics';
+import {
+	initializeAppCheck,
+	ReCaptchaV3Provider,
+	ReCaptchaEnterpriseProvider,
+	CustomProvider,
+	type AppCheckOptions
+} from 'firebase/app-check';
+import { dev } from '$app/environment';
 import { firebaseConfig } from './config.js';
+import { FirebaseServiceState } from './firebase-state.svelte.js';
 import {
+	DEFAULT_APP_NAME,
 	FirebaseServiceStatus,
 	FirebaseServiceError,
-	type FirebaseServiceInstance
+	type AppCheckConfig,
+	type EmulatorConfig,
+	type EmulatorEndpoint,
+	type FirebaseOptionsSource,
+	type FirebaseServiceInstance,
+	type FirebaseServiceKind,
+	type FirebaseServiceStatusEntry,
+	type FirekitServiceSettings,
+	type FirestoreSettingsOptions
 } from './types/firebase.js';
 
 /**
- * Singleton service class that manages Firebase service instances.
+ * Service class that manages Firebase service instances for a named Firebase app.
+ * One instance exists per app name; the default app is exposed as `firebaseService`.
  * Handles initialization and access to Firebase app and its various services.
  *
  * @example
@@ -31,7 +58,8 @@ import {
  * const auth = firebaseService.getAuthInstance();
  */
 class FirebaseService implements FirebaseServiceInstance {
-	private static instance: FirebaseService;
+	private static instances = new Map<string, FirebaseService>();
+	readonly name: string;
 	firebaseApp: FirebaseServiceInstance['firebaseApp'] = null;
 	db: FirebaseServiceInstance['db'] = null;
 	auth: FirebaseServiceInstance['auth'] = null;
@@ -39,24 +67,51 @@ class FirebaseService implements FirebaseServiceInstance {
 	database: FirebaseServiceInstance['database'] = null;
 	storage: FirebaseServiceInstance['storage'] = null;
 	analytics: FirebaseServiceInstance['analytics'] = null;
-	status: FirebaseServiceStatus = FirebaseServiceStatus.UNINITIALIZED;
-	initializationError: Error | null = null;
+	appCheck: FirebaseServiceInstance['appCheck'] = null;
+	/** Reactive status of the app and each service */
+	readonly state = new FirebaseServiceState();
 	readonly isBrowser = typeof window !== 'undefined';
+	private settings: FirekitServiceSettings = {};
+	/** Memory-only Firestore used during SSR, kept apart so `db` stays browser-only */
+	private serverDb: Firestore | null = null;
 
 	/** @private */
-	private constructor() {}
+	private constructor(name: string) {
+		this.name = name;
+	}
 
 	/**
-	 * Gets the singleton instance of FirebaseService.
+	 * Gets the FirebaseService instance for a named app.
 	 * Creates a new instance if one doesn't exist.
 	 *
-	 * @returns {FirebaseService} The singleton FirebaseService instance
+	 * @param {string} [name] App name, defaults to the default app
+	 * @returns {FirebaseService} The FirebaseService instance for the app
 	 */
-	static getInstance(): FirebaseService {
-		if (!FirebaseService.instance) {
-			FirebaseService.instance = new FirebaseService();
+	static getInstance(name: string = DEFAULT_APP_NAME): FirebaseService {
+		let instance = FirebaseService.instances.get(name);
+		if (!instance) {
+			instance = new FirebaseService(name);
+			FirebaseService.instances.set(name, instance);
 		}
-		return FirebaseService.instance;
+		return instance;
+	}
+
+	/** Current app status, backed by the reactive `state` */
+	get status(): FirebaseServiceStatus {
+		return this.state.status;
+	}
+
+	set status(status: FirebaseServiceStatus) {
+		this.state.setApp(status, this.state.error);
+	}
+
+	/** App initialization error, backed by the reactive `state` */
+	get initializationError(): Error | null {
+		return this.state.error;
+	}
+
+	set initializationError(error: Error | null) {
+		this.state.setApp(this.state.status, error);
 	}
 
 	/**
@@ -77,6 +132,97 @@ class FirebaseService implements FirebaseServiceInstance {
 		return this.initializationError;
 	}
 
+	/**
+	 * Gets the reactive status of a single service
+	 *
+	 * @param {FirebaseServiceKind} service Service name
+	 * @returns {FirebaseServiceStatusEntry} Status and initialization error of the service
+	 */
+	getServiceStatus(service: FirebaseServiceKind): FirebaseServiceStatusEntry {
+		return this.state.services[service];
+	}
+
+	/**
+	 * Records a failed service initialization and creates the error to throw
+	 *
+	 * @private
+	 * @param {FirebaseServiceKind} service Service name
+	 * @param {string} message Error message
+	 * @returns {FirebaseServiceError} The error to throw
+	 */
+	private serviceFailed(service: FirebaseServiceKind, message: string): FirebaseServiceError {
+		const error = new FirebaseServiceError(message, service);
+		this.state.setService(service, FirebaseServiceStatus.ERROR, error);
+		return error;
+	}
+
+	/**
+	 * Applies settings used while lazily initializing service instances.
+	 * Must be called before the Firebase app is initialized.
+	 *
+	 * @param {FirekitServiceSettings} settings Service settings
+	 * @throws {FirebaseServiceError} If the Firebase app is already initialized
+	 *
+	 * @example
+	 * firebaseService.configure({
+	 *   emulators: { firestore: { port: 8080 }, auth: { port: 9099 } }
+	 * });
+	 */
+	configure(settings: FirekitServiceSettings): void {
+		if (this.firebaseApp) {
+			throw new FirebaseServiceError(
+				'Settings must be configured before the Firebase app is initialized',
+				'app'
+			);
+		}
+		this.settings = { ...this.settings, ...settings };
+	}
+
+	/**
+	 * Gets the emulator configuration for this app.
+	 * Falls back to `PUBLIC_FIREBASE_EMULATOR_*` variables for the default app.
+	 *
+	 * @private
+	 * @returns {EmulatorConfig | undefined} The emulator configuration, if any
+	 */
+	private getEmulatorConfig(): EmulatorConfig | undefined {
+		if (this.settings.emulators) return this.settings.emulators;
+		return this.name === DEFAULT_APP_NAME ? firebaseConfig.getEnvEmulatorConfig() : undefined;
+	}
+
+	/**
+	 * Resolves the emulator endpoint for a service.
+	 *
+	 * @private
+	 * @param {string} service Service key in the emulator configuration
+	 * @returns {{ host: string; port: number } | null} The endpoint or null if not emulated
+	 */
+	private getEmulatorEndpoint(
+		service: Exclude<keyof EmulatorConfig, 'host'>
+	): Required<EmulatorEndpoint> | null {
+		const config = this.getEmulatorConfig();
+		const endpoint = config?.[service];
+		if (!endpoint) return null;
+
+		return {
+			host: endpoint.host ?? config.host ?? '127.0.0.1',
+			port: endpoint.port
+		};
+	}
+
+	/**
+	 * Checks whether any service of this app is configured to use the Local Emulator Suite
+	 *
+	 * @returns {boolean} True if at least one emulator endpoint is configured
+	 */
+	isUsingEmulators(): boolean {
+		const config = this.getEmulatorConfig();
+		return !!(
+			config &&
+			(config.firestore || config.auth || config.database || config.storage || config.functions)
+		);
+	}
+
 	/**
 	 * Initializes or retrieves the Firebase app instance.
 	 * Also initializes Firestore if running in browser environment.
@@ -93,28 +239,157 @@ class FirebaseService implements FirebaseServiceInstance {
 
 		try {
 			this.status = FirebaseServiceStatus.INITIALIZING;
-			const existingApps = getApps();
-			if (existingApps.length) {
-				this.firebaseApp = existingApps[0];
+			const existingApp = getApps().find((app) => app.name === this.name);
+			if (existingApp) {
+				this.firebaseApp = existingApp;
 			} else {
-				this.firebaseApp = initializeApp(firebaseConfig);
-				console.log(
-					`${firebaseConfig.projectId} initialized on ${this.isBrowser ? 'client' : 'server'}`
+				const config = firebaseConfig.getConfig(this.name);
+				this.firebaseApp = initializeApp(config, this.name);
+				console.log(`${config.projectId} initialized on ${this.isBrowser ? 'client' : 'server'}`);
+			}
+
+			if (!dev && this.isUsingEmulators()) {
+				console.warn(
+					`[svelte-firekit] Firebase app "${this.name}" is connected to the Local Emulator Suite in a production build. Remove the emulator configuration before deploying.`
 				);
 			}
 
-			this.initializeFirestoreInstance();
-			this.status = FirebaseServiceStatus.INITIALIZED;
-			return this.firebaseApp;
+			this.state.setApp(FirebaseServiceStatus.INITIALIZED);
 		} catch (error) {
-			this.status = FirebaseServiceStatus.ERROR;
-			this.initializationError = error instanceof Error ? error : new Error(String(error));
+			this.state.setApp(
+				FirebaseServiceStatus.ERROR,
+				error instanceof Error ? error : new Error(String(error))
+			);
 			throw new FirebaseServiceError('Failed to initialize Firebase app', 'app');
 		}
+
+		// A failing service is recorded in `state` and does not fail the app
+		try {
+			// App Check must be active before any service sends requests
+			this.initializeAppCheckInstance();
+			this.initializeFirestoreInstance();
+		} catch (error) {
+			console.error(error);
+		}
+		return this.firebaseApp;
+	}
+
+	/**
+	 * Creates the App Check attestation provider from the configuration.
+	 *
+	 * @private
+	 * @param {AppCheckConfig} config App Check configuration
+	 * @returns {AppCheckOptions['provider']} The attestation provider
+	 * @throws {FirebaseServiceError} If the provider options are incomplete
+	 */
+	private createAppCheckProvider(config: AppCheckConfig): AppCheckOptions['provider'] {
+		if (config.provider === 'custom') {
+			if (!config.getToken) {
+				throw new FirebaseServiceError(
+					'The custom App Check provider requires getToken',
+					'appCheck'
+				);
+			}
+			return new CustomProvider({ getToken: config.getToken });
+		}
+
+		if (!config.siteKey) {
+			throw new FirebaseServiceError('reCAPTCHA App Check providers require a siteKey', 'appCheck');
+		}
+		return config.provider === 'recaptchaEnterprise'
+			? new ReCaptchaEnterpriseProvider(config.siteKey)
+			: new ReCaptchaV3Provider(config.siteKey);
 	}
 
 	/**
-	 * Initializes Firestore with persistent cache and multi-tab support.
+	 * Initializes App Check if configured.
+	 * Only runs in browser environment.
+	 *
+	 * @private
+	 * @throws {FirebaseServiceError} If App Check initialization fails
+	 */
+	private initializeAppCheckInstance(): void {
+		const config = this.settings.appCheck;
+		if (this.appCheck || !config || !this.isBrowser) return;
+		this.state.setService('appCheck', FirebaseServiceStatus.INITIALIZING);
+
+		if (config.debugToken !== undefined) {
+			// Read by the App Check SDK during initialization
+			(
+				self as unknown as { FIREBASE_APPCHECK_DEBUG_TOKEN?: string | boolean }
+			).FIREBASE_APPCHECK_DEBUG_TOKEN = config.debugToken;
+		}
+
+		try {
+			this.appCheck = initializeAppCheck(this.firebaseApp!, {
+				provider: this.createAppCheckProvider(config),
+				isTokenAutoRefreshEnabled: config.isTokenAutoRefreshEnabled ?? true
+			});
+			this.state.setService('appCheck', FirebaseServiceStatus.INITIALIZED);
+		} catch (error) {
+			throw this.serviceFailed(
+				'appCheck',
+				error instanceof FirebaseServiceError ? error.message : 'Failed to initialize App Check'
+			);
+		}
+	}
+
+	/**
+	 * Gets the App Check instance, initializing the app if necessary.
+	 *
+	 * @returns {AppCheck | null} The App Check instance, or null if App Check is not configured
+	 */
+	getAppCheckInstance(): FirebaseServiceInstance['appCheck'] {
+		if (!this.appCheck) {
+			this.getFirebaseApp();
+		}
+		return this.appCheck;
+	}
+
+	/**
+	 * Builds the Firestore settings from the configured cache strategy.
+	 * Defaults to a persistent, unlimited, multi-tab cache.
+	 *
+	 * @private
+	 * @param {FirestoreSettingsOptions} options Firestore settings options
+	 * @returns {FirestoreSettings} Settings for `initializeFirestore`
+	 */
+	private buildFirestoreSettings(options: FirestoreSettingsOptions): FirestoreSettings {
+		const localCache =
+			options.cache === 'memory'
+				? memoryLocalCache(
+						options.cacheSizeBytes !== undefined
+							? {
+									garbageCollector: memoryLruGarbageCollector({
+										cacheSizeBytes: options.cacheSizeBytes
+									})
+								}
+							: undefined
+					)
+				: persistentLocalCache({
+						cacheSizeBytes: options.cacheSizeBytes ?? CACHE_SIZE_UNLIMITED,
+						tabManager:
+							options.tabManager === 'single'
+								? persistentSingleTabManager(undefined)
+								: persistentMultipleTabManager()
+					});
+
+		const settings: FirestoreSettings = { localCache };
+		if (options.ignoreUndefinedProperties !== undefined) {
+			settings.ignoreUndefinedProperties = options.ignoreUndefinedProperties;
+		}
+		if (options.experimentalAutoDetectLongPolling !== undefined) {
+			settings.experimentalAutoDetectLongPolling = options.experimentalAutoDetectLongPolling;
+		}
+		if (options.experimentalForceLongPolling !== undefined) {
+			settings.experimentalForceLongPolling = options.experimentalForceLongPolling;
+		}
+		return settings;
+	}
+
+	/**
+	 * Initializes Firestore with the configured cache strategy
+	 * (persistent multi-tab cache by default).
 	 * Only runs in browser environment.
 	 *
 	 * @private
@@ -122,24 +397,29 @@ class FirebaseService implements FirebaseServiceInstance {
 	 */
 	private initializeFirestoreInstance(): void {
 		if (this.db || !this.isBrowser) return;
+		this.state.setService('firestore', FirebaseServiceStatus.INITIALIZING);
 
 		try {
-			this.db = initializeFirestore(this.firebaseApp!, {
-				localCache: persistentLocalCache({
-					cacheSizeBytes: CACHE_SIZE_UNLIMITED,
-					tabManager: persistentMultipleTabManager()
-				})
-			});
+			const options = this.settings.firestore ?? {};
+			this.db = initializeFirestore(this.firebaseApp!, this.buildFirestoreSettings(options));
 
-			const indexManager = getPersistentCacheIndexManager(this.db);
-			if (indexManager) {
-				enablePersistentCacheIndexAutoCreation(indexManager);
-				console.log('Firestore persistent cache indexing is enabled');
-			} else {
-				console.warn('Failed to initialize the Firestore cache index manager');
+			if (options.cache !== 'memory' && options.autoIndexing !== false) {
+				const indexManager = getPersistentCacheIndexManager(this.db);
+				if (indexManager) {
+					enablePersistentCacheIndexAutoCreation(indexManager);
+					console.log('Firestore persistent cache indexing is enabled');
+				} else {
+					console.warn('Failed to initialize the Firestore cache index manager');
+				}
+			}
+
+			const emulator = this.getEmulatorEndpoint('firestore');
+			if (emulator) {
+				connectFirestoreEmulator(this.db, emulator.host, emulator.port);
 			}
+			this.state.setService('firestore', FirebaseServiceStatus.INITIALIZED);
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Firestore', 'firestore');
+			throw this.serviceFailed('firestore', 'Failed to initialize Firestore');
 		}
 	}
 
@@ -153,6 +433,10 @@ class FirebaseService implements FirebaseServiceInstance {
 		if (!this.db) {
 			try {
 				this.getFirebaseApp();
+				if (!this.db && this.isBrowser) {
+					// Retry if Firestore failed while the app was initialized
+					this.initializeFirestoreInstance();
+				}
 				if (!this.db) {
 					// If we're not in a browser environment, Firestore won't be available
 					if (!this.isBrowser) {
@@ -173,6 +457,36 @@ class FirebaseService implements FirebaseServiceInstance {
 		return this.db;
 	}
 
+	/**
+	 * Gets a Firestore instance usable during SSR and in server load functions.
+	 * On the server Firestore is initialized with a memory-only cache; in the browser
+	 * this returns the regular instance from `getDbInstance()`.
+	 *
+	 * @returns {Firestore} The Firestore instance
+	 * @throws {FirebaseServiceError} If Firestore initialization fails
+	 */
+	getServerDbInstance(): Firestore {
+		if (this.isBrowser) return this.getDbInstance()!;
+		if (this.serverDb) return this.serverDb;
+
+		try {
+			const app = this.getFirebaseApp()!;
+			const options = this.settings.firestore ?? {};
+			this.serverDb = initializeFirestore(
+				app,
+				this.buildFirestoreSettings({ ...options, cache: 'memory', cacheSizeBytes: undefined })
+			);
+
+			const emulator = this.getEmulatorEndpoint('firestore');
+			if (emulator) {
+				connectFirestoreEmulator(this.serverDb, emulator.host, emulator.port);
+			}
+			return this.serverDb;
+		} catch (error) {
+			throw new FirebaseServiceError('Failed to initialize server Firestore', 'firestore');
+		}
+	}
+
 	/**
 	 * Gets the Authentication instance, initializing it if necessary.
 	 *
@@ -183,10 +497,18 @@ class FirebaseService implements FirebaseServiceInstance {
 		try {
 			if (!this.auth) {
 				this.auth = getAuth(this.getFirebaseApp()!);
+
+				const emulator = this.getEmulatorEndpoint('auth');
+				if (emulator) {
+					connectAuthEmulator(this.auth, `http://${emulator.host}:${emulator.port}`, {
+						disableWarnings: true
+					});
+				}
+				this.state.setService('auth', FirebaseServiceStatus.INITIALIZED);
 			}
 			return this.auth;
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Auth', 'auth');
+			throw this.serviceFailed('auth', 'Failed to initialize Auth');
 		}
 	}
 
@@ -200,10 +522,16 @@ class FirebaseService implements FirebaseServiceInstance {
 		try {
 			if (!this.functions) {
 				this.functions = getFunctions(this.getFirebaseApp()!);
+
+				const emulator = this.getEmulatorEndpoint('functions');
+				if (emulator) {
+					connectFunctionsEmulator(this.functions, emulator.host, emulator.port);
+				}
+				this.state.setService('functions', FirebaseServiceStatus.INITIALIZED);
 			}
 			return this.functions;
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Functions', 'functions');
+			throw this.serviceFailed('functions', 'Failed to initialize Functions');
 		}
 	}
 
@@ -217,10 +545,16 @@ class FirebaseService implements FirebaseServiceInstance {
 		try {
 			if (!this.database) {
 				this.database = getDatabase(this.getFirebaseApp()!);
+
+				const emulator = this.getEmulatorEndpoint('database');
+				if (emulator) {
+					connectDatabaseEmulator(this.database, emulator.host, emulator.port);
+				}
+				this.state.setService('database', FirebaseServiceStatus.INITIALIZED);
 			}
 			return this.database;
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Database', 'database');
+			throw this.serviceFailed('database', 'Failed to initialize Database');
 		}
 	}
 
@@ -234,10 +568,16 @@ class FirebaseService implements FirebaseServiceInstance {
 		try {
 			if (!this.storage) {
 				this.storage = getStorage(this.getFirebaseApp()!);
+
+				const emulator = this.getEmulatorEndpoint('storage');
+				if (emulator) {
+					connectStorageEmulator(this.storage, emulator.host, emulator.port);
+				}
+				this.state.setService('storage', FirebaseServiceStatus.INITIALIZED);
 			}
 			return this.storage;
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Storage', 'storage');
+			throw this.serviceFailed('storage', 'Failed to initialize Storage');
 		}
 	}
 
@@ -259,10 +599,55 @@ class FirebaseService implements FirebaseServiceInstance {
 		try {
 			if (!this.analytics) {
 				this.analytics = getAnalytics(this.getFirebaseApp()!);
+				this.state.setService('analytics', FirebaseServiceStatus.INITIALIZED);
 			}
 			return this.analytics;
 		} catch (error) {
-			throw new FirebaseServiceError('Failed to initialize Analytics', 'analytics');
+			throw this.serviceFailed('analytics', 'Failed to initialize Analytics');
+		}
+	}
+
+	/**
+	 * Terminates Firestore and resets the service.
+	 * Service instances are recreated on next access, so `configure()` may be called again
+	 * in between, e.g. to switch to a memory-only cache. Components under a mounted
+	 * `<FirebaseApp>` keep the instances it put in context until they are remounted.
+	 *
+	 * @returns {Promise<void>}
+	 *
+	 * @example
+	 * await firebaseService.terminate();
+	 * firebaseService.configure({ firestore: { cache: 'memory' } });
+	 */
+	async terminate(): Promise<void> {
+		if (this.db) {
+			await terminate(this.db);
+		}
+		if (this.serverDb) {
+			await terminate(this.serverDb);
+		}
+		await this.reset();
+	}
+
+	/**
+	 * Terminates Firestore and clears its persisted IndexedDB cache.
+	 * Useful on shared devices, e.g. after the user signs out.
+	 * Only runs in browser environment.
+	 *
+	 * @returns {Promise<void>}
+	 * @throws {FirebaseServiceError} If the persisted cache could not be cleared
+	 */
+	async clearPersistence(): Promise<void> {
+		if (!this.isBrowser) return;
+
+		const db = this.getDbInstance();
+		await this.terminate();
+		if (!db) return;
+
+		try {
+			await clearIndexedDbPersistence(db);
+		} catch (error) {
+			throw new FirebaseServiceError('Failed to clear Firestore persistence', 'firestore');
 		}
 	}
 
@@ -275,18 +660,73 @@ class FirebaseService implements FirebaseServiceInstance {
 	async reset(): Promise<void> {
 		this.firebaseApp = null;
 		this.db = null;
+		this.serverDb = null;
 		this.auth = null;
 		this.functions = null;
 		this.database = null;
 		this.storage = null;
 		this.analytics = null;
-		this.status = FirebaseServiceStatus.UNINITIALIZED;
-		this.initializationError = null;
+		// App Check is kept: it can only be activated once per app
+		this.state.reset(['appCheck']);
 	}
 }
 
 /**
- * Pre-initialized Firebase service instance.
+ * Gets the Firebase service for a named app.
+ *
+ * @param {string} [name] App name, defaults to the default app
+ * @returns {FirebaseService} The Firebase service instance for the app
+ *
+ * @example
+ * const warehouseDb = getFirebaseService('warehouse').getDbInstance();
+ */
+export function getFirebaseService(name: string = DEFAULT_APP_NAME): FirebaseService {
+	return FirebaseService.getInstance(name);
+}
+
+/**
+ * Registers Firebase options for a named app and returns its Firebase service.
+ * Options may be passed directly or as a loader that is called on first use.
+ * Calling it without a name configures the default app, replacing the env-based config.
+ *
+ * @param {FirebaseOptionsSource} options Firebase options or a loader returning them
+ * @param {string} [name] App name, defaults to the default app
+ * @param {FirekitServiceSettings} [settings] Settings such as emulator configuration
+ * @returns {FirebaseService} The Firebase service instance for the app
+ * @throws {FirebaseServiceError} If the app has already been initialized
+ *
+ * @example
+ * import { createFirekit } from 'svelte-firekit';
+ *
+ * createFirekit({ apiKey: '...', projectId: 'main-project', appId: '...' });
+ * const warehouse = createFirekit(() => loadWarehouseOptions(), 'warehouse');
+ *
+ * // Develop against the Local Emulator Suite
+ * createFirekit(options, 'local', { emulators: { firestore: { port: 8080 } } });
+ *
+ * const db = warehouse.getDbInstance();
+ */
+export function createFirekit(
+	options: FirebaseOptionsSource,
+	name: string = DEFAULT_APP_NAME,
+	settings?: FirekitServiceSettings
+): FirebaseService {
+	const service = FirebaseService.getInstance(name);
+	if (service.firebaseApp) {
+		throw new FirebaseServiceError(`Firebase app "${name}" is already initialized`, 'app');
+	}
+
+	firebaseConfig.register(options, name);
+	if (settings) {
+		service.configure(settings);
+	}
+	return service;
+}
+
+export type { FirebaseService };
+
+/**
+ * Pre-initialized Firebase service instance for the default app.
  * Use this to access Firebase services directly.
  *
  * @example
@@ -3,13 +3,49 @@ export * from './types/index.js';
 
 // Firebase config
 export { firebaseConfig } from './config.js';
-export { firebaseService } from './firebase.js';
+export { firebaseService, getFirebaseService, createFirekit } from './firebase.js';
+
+// Firebase context
+export {
+	getFirebaseContext,
+	setFirebaseContext,
+	getAuthContext,
+	setAuthContext,
+	getFirestoreContext,
+	setFirestoreContext,
+	getStorageContext,
+	setStorageContext,
+	getDatabaseContext,
+	setDatabaseContext,
+	getAnalyticsContext,
+	setAnalyticsContext,
+	getFunctionsContext,
+	setFunctionsContext,
+	getAppCheckContext,
+	setAppCheckContext
+} from './context.js';
 
 // auth services
 export { firekitUser } from './services/user.svelte.js';
 export { firekitAuth } from './services/auth.js';
+export {
+	registerAuthProvider,
+	unregisterAuthProvider,
+	getProviderName,
+	type FirekitAuthProvider,
+	type AuthProviderFactory
+} from './utils/providers.js';
+export { mapUserToDocument } from './utils/firestore.js';
+export {
+	MIN_PASSWORD_LENGTH,
+	validateCredentials,
+	type CredentialsInput
+} from './utils/validation.js';
 export { firekitPresence } from './services/presence.svelte.js';
 
+// app check services
+export { firekitAppCheck } from './services/app-check.svelte.js';
+
 // analytics services
 export { firekitAnalytics } from './services/analytics.js';
 
@@ -29,6 +65,9 @@ export {
 // realtime services
 export { firekitRealtimeDB, firekitRealtimeList } from './services/realtime.svelte.js';
 
+// functions services
+export { firekitCallable } from './services/functions.svelte.js';
+
 // storage services
 export {
 	firekitStorageList,
@@ -42,6 +81,11 @@ export { default as AuthGuard } from './components/firekit/auth-guard.svelte';
 export { default as CustomGuard } from './components/firekit/custom-guard.svelte';
 export { default as SignedIn } from './components/firekit/signed-in.svelte';
 export { default as SignedOut } from './components/firekit/signed-out.svelte';
+export { default as SignInForm } from './components/firekit/sign-in-form.svelte';
+export { default as RegisterForm } from './components/firekit/register-form.svelte';
+export { default as AuthAction } from './components/firekit/auth-action.svelte';
+export { default as PhoneSignIn } from './components/firekit/phone-sign-in.svelte';
+export { default as IdleTimeout } from './components/firekit/idle-timeout.svelte';
 export { default as Doc } from './components/firekit/Doc.svelte';
 export { default as Collection } from './components/firekit/Collection.svelte';
 export { default as Node } from './components/firekit/Node.svelte';
@@ -49,3 +93,4 @@ export { default as NodeList } from './components/firekit/node-list.svelte';
 export { default as StorageList } from './components/firekit/storage-list.svelte';
 export { default as DownloadURL } from './components/firekit/download-url.svelte';
 export { default as UploadTask } from './components/firekit/upload-task.svelte';
+export { default as Callable } from './components/firekit/callable.svelte';
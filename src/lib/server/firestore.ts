@@ -0,0 +1,193 @@
+/**
+ * @fileoverview Server-side Firestore reads for SvelteKit load functions
+ * @module FirekitServer
+ * @version 1.0.0
+ */
+
+import {
+	collection,
+	doc,
+	getDoc,
+	getDocs,
+	query,
+	type CollectionReference,
+	type DocumentData,
+	type DocumentReference,
+	type DocumentSnapshot,
+	type Query,
+	type QueryConstraint
+} from 'firebase/firestore';
+import { getFirebaseService } from '../firebase.js';
+import { FirekitQueryBuilder } from '../utils/query.js';
+import { serializeFirestoreValue } from '../utils/serialization.js';
+import { CollectionError, CollectionErrorCode, type QueryBuilder } from '../types/collection.js';
+import { DocumentError, DocumentErrorCode } from '../types/document.js';
+import type {
+	Serialized,
+	SerializedCollection,
+	SerializedDocument,
+	ServerCollectionOptions,
+	ServerDocumentOptions
+} from '../types/server.js';
+
+/**
+ * Serializes a document snapshot, adding the document ID to its data
+ * like the client services do.
+ * @param {DocumentSnapshot} snapshot Document snapshot
+ * @returns {Serialized<T & { id: string }> | null} Serialized document data
+ */
+function serializeSnapshotData<T>(
+	snapshot: DocumentSnapshot
+): Serialized<T & { id: string }> | null {
+	if (!snapshot.exists()) return null;
+	return serializeFirestoreValue({ ...snapshot.data(), id: snapshot.id }) as Serialized<
+		T & { id: string }
+	>;
+}
+
+/**
+ * Maps a Firestore error code to a DocumentErrorCode
+ * @param {string} firestoreCode Firestore error code
+ * @returns {DocumentErrorCode} Document error code
+ */
+function mapDocumentErrorCode(firestoreCode: string): DocumentErrorCode {
+	switch (firestoreCode) {
+		case 'permission-denied':
+			return DocumentErrorCode.PERMISSION_DENIED;
+		case 'unauthenticated':
+			return DocumentErrorCode.UNAUTHENTICATED;
+		case 'unavailable':
+			return DocumentErrorCode.UNAVAILABLE;
+		case 'deadline-exceeded':
+			return DocumentErrorCode.TIMEOUT;
+		default:
+			return DocumentErrorCode.UNKNOWN;
+	}
+}
+
+/**
+ * Maps a Firestore error code to a CollectionErrorCode
+ * @param {string} firestoreCode Firestore error code
+ * @returns {CollectionErrorCode} Collection error code
+ */
+function mapCollectionErrorCode(firestoreCode: string): CollectionErrorCode {
+	switch (firestoreCode) {
+		case 'permission-denied':
+			return CollectionErrorCode.PERMISSION_DENIED;
+		case 'unauthenticated':
+			return CollectionErrorCode.UNAUTHENTICATED;
+		case 'unavailable':
+			return CollectionErrorCode.UNAVAILABLE;
+		case 'deadline-exceeded':
+			return CollectionErrorCode.DEADLINE_EXCEEDED;
+		case 'failed-precondition':
+			return CollectionErrorCode.FAILED_PRECONDITION;
+		default:
+			return CollectionErrorCode.UNKNOWN;
+	}
+}
+
+/**
+ * Creates a query builder for `getCollectionServer`.
+ * Offers the same API as `firekitCollection(...).createQuery()`.
+ * @returns {QueryBuilder<T>} A new query builder
+ *
+ * @example
+ * const query = createQuery<Post>().where('published', '==', true).limit(10);
+ * const posts = await getCollectionServer<Post>('posts', { query });
+ */
+export function createQuery<T = DocumentData>(): QueryBuilder<T> {
+	return new FirekitQueryBuilder<T>();
+}
+
+/**
+ * Reads a document on the server and serializes it for a load function.
+ * Pass the result to `firekitDoc(path, undefined, { initial })` to hydrate without a flash.
+ *
+ * Reads use the Firebase client SDK without a signed-in user, so security rules
+ * are evaluated as unauthenticated.
+ *
+ * @param {string | DocumentReference} ref Document path or reference
+ * @param {ServerDocumentOptions} [options] Read options
+ * @returns {Promise<SerializedDocument<T>>} The serialized document
+ * @throws {DocumentError} If the read fails
+ *
+ * @example
+ * // +page.server.ts
+ * export const load = async ({ params }) => ({
+ *   post: await getDocServer<Post>(`posts/${params.id}`)
+ * });
+ */
+export async function getDocServer<T extends DocumentData = DocumentData>(
+	ref: string | DocumentReference<T>,
+	options: ServerDocumentOptions = {}
+): Promise<SerializedDocument<T>> {
+	try {
+		const firestore = getFirebaseService(options.app).getServerDbInstance();
+		const docRef = typeof ref === 'string' ? doc(firestore, ref) : ref;
+		const snapshot = await getDoc(docRef);
+
+		return {
+			id: snapshot.id,
+			path: docRef.path,
+			exists: snapshot.exists(),
+			data: serializeSnapshotData<T>(snapshot)
+		};
+	} catch (error: any) {
+		if (error instanceof DocumentError) throw error;
+		throw new DocumentError(mapDocumentErrorCode(error?.code), error?.message, error, {
+			path: typeof ref === 'string' ? ref : ref.path
+		});
+	}
+}
+
+/**
+ * Reads a collection on the server and serializes it for a load function.
+ * Pass the result to `firekitCollection(path, { initial })` to hydrate without a flash.
+ *
+ * Reads use the Firebase client SDK without a signed-in user, so security rules
+ * are evaluated as unauthenticated.
+ *
+ * @param {string} path Collection path
+ * @param {ServerCollectionOptions<T>} [options] Read options and query builder
+ * @param {...QueryConstraint} constraints Additional query constraints
+ * @returns {Promise<SerializedCollection<T>>} The serialized collection
+ * @throws {CollectionError} If the read fails
+ *
+ * @example
+ * // +page.server.ts
+ * export const load = async () => ({
+ *   posts: await getCollectionServer<Post>('posts', {
+ *     query: (q) => q.where('published', '==', true).orderBy('createdAt', 'desc').limit(20)
+ *   })
+ * });
+ */
+export async function getCollectionServer<T extends DocumentData = DocumentData>(
+	path: string,
+	options: ServerCollectionOptions<T> = {},
+	...constraints: QueryConstraint[]
+): Promise<SerializedCollection<T>> {
+	const builder =
+		typeof options.query === 'function' ? options.query(createQuery<T>()) : options.query;
+	const allConstraints = [...(builder?.build() ?? []), ...constraints];
+
+	try {
+		const firestore = getFirebaseService(options.app).getServerDbInstance();
+		const collectionRef = collection(firestore, path) as CollectionReference<T>;
+		const queryRef: Query<T> =
+			allConstraints.length > 0 ? query(collectionRef, ...allConstraints) : collectionRef;
+		const snapshot = await getDocs(queryRef);
+
+		const data = snapshot.docs.map((docSnapshot) => serializeSnapshotData<T>(docSnapshot)!);
+		return { path, data, size: data.length };
+	} catch (error: any) {
+		if (error instanceof CollectionError) throw error;
+		throw new CollectionError(
+			mapCollectionErrorCode(error?.code),
+			error?.message || 'An unknown error occurred',
+			path,
+			allConstraints,
+			error
+		);
+	}
+}
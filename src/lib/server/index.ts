@@ -0,0 +1,22 @@
+// Firestore reads for load functions
+export { createQuery, getDocServer, getCollectionServer } from './firestore.js';
+export { serializeFirestoreValue } from '../utils/serialization.js';
+
+// Session handling for hooks.server.ts
+export { firekitHandle, createIdTokenVerifier } from './session.js';
+
+// Types
+export type {
+	Serialized,
+	SerializedCollection,
+	SerializedDocument,
+	ServerCollectionOptions,
+	ServerDocumentOptions
+} from '../types/server.js';
+export type {
+	FirekitHandleOptions,
+	FirekitLocals,
+	IdTokenVerifierOptions,
+	SessionCreator,
+	SessionVerifier
+} from '../types/auth.js';
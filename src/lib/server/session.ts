@@ -0,0 +1,259 @@
+/**
+ * @fileoverview Session cookie handling for SvelteKit server hooks
+ * @module FirekitSession
+ * @version 1.0.0
+ */
+
+import { dev } from '$app/environment';
+import type { Handle } from '@sveltejs/kit';
+import {
+	DEFAULT_SESSION_COOKIE,
+	DEFAULT_SESSION_ENDPOINT,
+	type FirekitHandleOptions,
+	type FirekitLocals,
+	type IdTokenVerifierOptions,
+	type SessionVerifier,
+	type UserProfile
+} from '../types/auth.js';
+import { getCustomClaims } from '../utils/claims.js';
+
+/** Public keys used to sign Firebase ID tokens */
+const ID_TOKEN_JWKS_URL =
+	'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+/** Minimum milliseconds between refetches of the signing keys for unknown key IDs */
+const JWKS_REFETCH_INTERVAL = 60000;
+
+let jwksCache: { keys: Map<string, JsonWebKey>; expiresAt: number; fetchedAt: number } | null =
+	null;
+
+/**
+ * Decodes a base64url string
+ * @param {string} value Base64url encoded value
+ * @returns {Uint8Array} Decoded bytes
+ */
+function decodeBase64Url(value: string): Uint8Array<ArrayBuffer> {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+/**
+ * Decodes a base64url encoded JSON segment of a JWT
+ * @param {string} segment JWT segment
+ * @returns {Record<string, any>} Decoded JSON
+ */
+function decodeJwtSegment(segment: string): Record<string, any> {
+	return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+}
+
+/**
+ * Fetches the public keys used to sign ID tokens, honouring the response cache lifetime
+ * @param {boolean} [forceRefresh=false] Fetch the keys even if the cached ones are valid
+ * @returns {Promise<Map<string, JsonWebKey>>} Keys by key ID
+ */
+async function getSigningKeys(forceRefresh: boolean = false): Promise<Map<string, JsonWebKey>> {
+	if (!forceRefresh && jwksCache && jwksCache.expiresAt > Date.now()) return jwksCache.keys;
+
+	const response = await fetch(ID_TOKEN_JWKS_URL);
+	if (!response.ok) {
+		throw new Error(`Failed to fetch ID token signing keys: ${response.status}`);
+	}
+
+	const { keys } = (await response.json()) as { keys: Array<JsonWebKey & { kid: string }> };
+	const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') ?? '')?.[1]);
+
+	jwksCache = {
+		keys: new Map(keys.map((key) => [key.kid, key])),
+		expiresAt: Date.now() + (Number.isFinite(maxAge) ? maxAge * 1000 : 3600000),
+		fetchedAt: Date.now()
+	};
+	return jwksCache.keys;
+}
+
+/**
+ * Verifies the RS256 signature of a JWT
+ * @param {string[]} segments JWT header, payload and signature segments
+ * @param {string} kid Key ID from the JWT header
+ * @returns {Promise<boolean>} True if the signature is valid
+ */
+async function verifySignature(segments: string[], kid: string): Promise<boolean> {
+	let jwk = (await getSigningKeys()).get(kid);
+	// Google rotates its keys before the cached ones expire, so refetch for unknown key IDs
+	if (!jwk && Date.now() - (jwksCache?.fetchedAt ?? 0) >= JWKS_REFETCH_INTERVAL) {
+		jwk = (await getSigningKeys(true)).get(kid);
+	}
+	if (!jwk) return false;
+
+	const key = await crypto.subtle.importKey(
+		'jwk',
+		jwk,
+		{ name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+		false,
+		['verify']
+	);
+	return crypto.subtle.verify(
+		'RSASSA-PKCS1-v1_5',
+		key,
+		decodeBase64Url(segments[2]),
+		new TextEncoder().encode(`${segments[0]}.${segments[1]}`)
+	);
+}
+
+/**
+ * Gets the seconds left until a JWT expires
+ * @param {string} token JWT
+ * @returns {number} Seconds until the `exp` claim, or 0 if it is missing
+ */
+function getRemainingLifetime(token: string): number {
+	try {
+		const { exp } = decodeJwtSegment(token.split('.')[1]);
+		return typeof exp === 'number' ? Math.max(0, exp - Math.floor(Date.now() / 1000)) : 0;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Maps verified ID token claims to a UserProfile
+ * @param {Record<string, any>} claims Decoded ID token claims
+ * @returns {UserProfile} User profile
+ */
+function mapClaimsToProfile(claims: Record<string, any>): UserProfile {
+	const signInProvider: string = claims.firebase?.sign_in_provider ?? 'firebase';
+
+	return {
+		uid: claims.sub,
+		email: claims.email ?? null,
+		displayName: claims.name ?? null,
+		photoURL: claims.picture ?? null,
+		phoneNumber: claims.phone_number ?? null,
+		emailVerified: claims.email_verified ?? false,
+		isAnonymous: signInProvider === 'anonymous',
+		providerId: 'firebase',
+		metadata: {
+			lastSignInTime: claims.auth_time ? new Date(claims.auth_time * 1000).toUTCString() : undefined
+		},
+		providerData: [],
+		tenantId: claims.firebase?.tenant ?? null,
+		customClaims: getCustomClaims(claims)
+	};
+}
+
+/**
+ * Creates a verifier for Firebase ID tokens stored in the session cookie.
+ * Uses the Web Crypto API, so it runs on Node and edge runtimes without the Admin SDK.
+ * With `emulator: true` unsigned tokens issued by the Auth emulator are accepted in development
+ * only; production builds always require a valid signature.
+ *
+ * @param {IdTokenVerifierOptions} options Verifier options
+ * @returns {SessionVerifier} Session verifier for `firekitHandle`
+ *
+ * @example
+ * const verifier = createIdTokenVerifier({
+ *   projectId: env.PUBLIC_FIREBASE_PROJECT_ID,
+ *   emulator: dev
+ * });
+ */
+export function createIdTokenVerifier(options: IdTokenVerifierOptions): SessionVerifier {
+	return async (session) => {
+		try {
+			const segments = session.split('.');
+			if (segments.length !== 3) return null;
+
+			const header = decodeJwtSegment(segments[0]);
+			const claims = decodeJwtSegment(segments[1]);
+			const now = Math.floor(Date.now() / 1000);
+
+			if (claims.aud !== options.projectId) return null;
+			if (claims.iss !== `https://securetoken.google.com/${options.projectId}`) return null;
+			if (typeof claims.sub !== 'string' || !claims.sub) return null;
+			if (typeof claims.exp !== 'number' || claims.exp <= now) return null;
+
+			if (!(options.emulator && dev && header.alg === 'none')) {
+				if (header.alg !== 'RS256' || !(await verifySignature(segments, header.kid))) {
+					return null;
+				}
+			}
+
+			return mapClaimsToProfile(claims);
+		} catch (error) {
+			console.warn('Failed to verify session:', error);
+			return null;
+		}
+	};
+}
+
+/**
+ * Creates a SvelteKit `handle` hook bridging client auth state to the server.
+ * Serves the session endpoint used by `firekitAuth.enableSessionSync()` and populates
+ * `event.locals.user` from the session cookie on every request.
+ *
+ * @param {FirekitHandleOptions} options Hook options
+ * @returns {Handle} SvelteKit handle hook
+ *
+ * @example
+ * // src/hooks.server.ts
+ * import { firekitHandle, createIdTokenVerifier } from 'svelte-firekit/server';
+ *
+ * export const handle = firekitHandle({
+ *   verifier: createIdTokenVerifier({ projectId: 'my-project' })
+ * });
+ *
+ * // src/routes/account/+layout.server.ts
+ * export const load = ({ locals }) => {
+ *   if (!locals.user) redirect(303, '/login');
+ *   return { user: locals.user };
+ * };
+ */
+export function firekitHandle(options: FirekitHandleOptions): Handle {
+	const cookieName = options.cookieName ?? DEFAULT_SESSION_COOKIE;
+	const endpoint = options.endpoint ?? DEFAULT_SESSION_ENDPOINT;
+	const maxAge = options.maxAge ?? 60 * 60 * 24 * 5;
+
+	return async ({ event, resolve }) => {
+		const locals = event.locals as FirekitLocals;
+
+		if (event.url.pathname === endpoint) {
+			if (event.request.method === 'POST') {
+				const body = await event.request.json().catch(() => null);
+				const idToken = typeof body?.idToken === 'string' ? body.idToken : null;
+				if (!idToken) return new Response(null, { status: 400 });
+
+				const session = options.createSession
+					? await options.createSession(idToken, maxAge)
+					: idToken;
+				if (!(await options.verifier(session))) return new Response(null, { status: 401 });
+
+				// A stored ID token is useless once it expires, so the cookie must not outlive it
+				event.cookies.set(cookieName, session, {
+					path: '/',
+					httpOnly: true,
+					sameSite: 'lax',
+					maxAge: options.createSession ? maxAge : Math.min(maxAge, getRemainingLifetime(session))
+				});
+				return new Response(null, { status: 204 });
+			}
+
+			if (event.request.method === 'DELETE') {
+				event.cookies.delete(cookieName, { path: '/' });
+				return new Response(null, { status: 204 });
+			}
+
+			return new Response(null, { status: 405, headers: { allow: 'POST, DELETE' } });
+		}
+
+		const session = event.cookies.get(cookieName);
+		locals.user = session ? await options.verifier(session) : null;
+
+		if (session && !locals.user) {
+			event.cookies.delete(cookieName, { path: '/' });
+		}
+
+		return resolve(event);
+	};
+}
@@ -13,6 +13,7 @@ import {
 } from 'firebase/analytics';
 import { firebaseService } from '../firebase.js';
 import { firekitAuth } from './auth.js';
+import { lazySingleton } from '../utils/lazy.js';
 import type { UserProfile } from '../types/auth.js';
 import type {
 	AnalyticsEvent,
@@ -53,11 +54,7 @@ class FirekitAnalytics {
 	private customParameters: Record<string, any> = {};
 	private debugMode = false;
 
-	private constructor() {
-		if (typeof window !== 'undefined') {
-			this.initialize();
-		}
-	}
+	private constructor() {}
 
 	/**
 	 * Gets singleton instance of FirekitAnalytics
@@ -71,7 +68,8 @@ class FirekitAnalytics {
 	}
 
 	/**
-	 * Initializes the analytics service
+	 * Initializes the analytics service on first use, so that `createFirekit()` calls made
+	 * after importing firekit still apply
 	 */
 	private initialize(): void {
 		if (this._initialized || typeof window === 'undefined') return;
@@ -79,6 +77,7 @@ class FirekitAnalytics {
 		try {
 			this.analytics = firebaseService.getAnalyticsInstance();
 			this._initialized = true;
+			this.trackAuthEvents();
 			console.log('FirekitAnalytics initialized successfully');
 		} catch (error) {
 			console.error('Failed to initialize FirekitAnalytics:', error);
@@ -86,11 +85,27 @@ class FirekitAnalytics {
 		}
 	}
 
+	/**
+	 * Logs `login` and `sign_up` for auth events when `AuthConfig.enableAnalytics` is set
+	 * @private
+	 */
+	private trackAuthEvents(): void {
+		firekitAuth.on('signIn', (event) => {
+			if (!firekitAuth.getConfig().enableAnalytics) return;
+			this.trackEvent('login', { method: event.method });
+		});
+		firekitAuth.on('signUp', (event) => {
+			if (!firekitAuth.getConfig().enableAnalytics) return;
+			this.trackEvent('sign_up', { method: event.method });
+		});
+	}
+
 	/**
 	 * Checks if analytics is available
 	 * @private
 	 */
 	private isAnalyticsAvailable(): boolean {
+		this.initialize();
 		return this._initialized && this.analytics !== null;
 	}
 
@@ -99,6 +114,7 @@ class FirekitAnalytics {
 	 * @returns {Analytics | null} Firebase Analytics instance
 	 */
 	getAnalyticsInstance(): Analytics | null {
+		this.initialize();
 		return this.analytics;
 	}
 
@@ -107,6 +123,7 @@ class FirekitAnalytics {
 	 * @returns {boolean} True if analytics is initialized
 	 */
 	isInitialized(): boolean {
+		this.initialize();
 		return this._initialized;
 	}
 
@@ -502,7 +519,7 @@ class FirekitAnalytics {
 }
 
 /**
- * Pre-initialized singleton instance of FirekitAnalytics.
+ * Singleton instance of FirekitAnalytics, created on first use.
  * This is the main export that should be used throughout your application.
  *
  * @example
@@ -523,4 +540,4 @@ class FirekitAnalytics {
  * });
  * ```
  */
-export const firekitAnalytics = FirekitAnalytics.getInstance();
+export const firekitAnalytics = lazySingleton(() => FirekitAnalytics.getInstance());
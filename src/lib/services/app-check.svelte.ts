@@ -0,0 +1,220 @@
+/**
+ * @fileoverview FirekitAppCheck - Reactive App Check token state for Svelte applications
+ * @module FirekitAppCheck
+ * @version 1.0.0
+ */
+
+import {
+	getToken,
+	getLimitedUseToken,
+	onTokenChanged,
+	setTokenAutoRefreshEnabled,
+	type AppCheck
+} from 'firebase/app-check';
+import { getFirebaseService } from '../firebase.js';
+import { DEFAULT_APP_NAME, type AppCheckTokenStatus } from '../types/firebase.js';
+
+/**
+ * Reactive App Check store using Svelte 5 runes.
+ * Tracks the App Check token of a Firebase app configured with `appCheck` settings.
+ * The token listener is attached on first access.
+ *
+ * @class FirekitAppCheck
+ * @example
+ * ```typescript
+ * import { firekitAppCheck } from 'svelte-firekit';
+ *
+ * // Access reactive state
+ * $: if (firekitAppCheck.status === 'error') {
+ *   console.error('App Check failed:', firekitAppCheck.error);
+ * }
+ *
+ * // Attach a token to your own backend requests
+ * const token = await firekitAppCheck.getToken();
+ * ```
+ */
+class FirekitAppCheck {
+	private static instances = new Map<string, FirekitAppCheck>();
+	private readonly appName: string;
+	private appCheck: AppCheck | null = null;
+	private listening = false;
+
+	// Reactive state using Svelte 5 runes
+	private _token = $state<string | null>(null);
+	private _expiresAt = $state<number | null>(null);
+	private _error = $state<Error | null>(null);
+
+	private constructor(appName: string) {
+		this.appName = appName;
+	}
+
+	/**
+	 * Gets the FirekitAppCheck instance for a named Firebase app
+	 * @param {string} [appName] App name, defaults to the default app
+	 * @returns {FirekitAppCheck} The FirekitAppCheck instance
+	 */
+	static getInstance(appName: string = DEFAULT_APP_NAME): FirekitAppCheck {
+		let instance = FirekitAppCheck.instances.get(appName);
+		if (!instance) {
+			instance = new FirekitAppCheck(appName);
+			FirekitAppCheck.instances.set(appName, instance);
+		}
+		return instance;
+	}
+
+	/**
+	 * Gets the FirekitAppCheck instance bound to another Firebase app
+	 * @param {string} [appName] Name of the Firebase app, defaults to the default app
+	 * @returns {FirekitAppCheck} The FirekitAppCheck instance for that app
+	 */
+	forApp(appName: string = DEFAULT_APP_NAME): FirekitAppCheck {
+		return FirekitAppCheck.getInstance(appName);
+	}
+
+	/**
+	 * Resolves the App Check instance and attaches the token listener once.
+	 * Does not write reactive state synchronously, so it is safe to call from getters.
+	 * @private
+	 * @returns {AppCheck | null} The App Check instance, or null if App Check is not configured
+	 */
+	private ensureListening(): AppCheck | null {
+		if (this.listening || typeof window === 'undefined') return this.appCheck;
+		this.listening = true;
+
+		try {
+			this.appCheck = getFirebaseService(this.appName).getAppCheckInstance();
+		} catch (error) {
+			console.error('Failed to initialize App Check:', error);
+			return null;
+		}
+
+		if (this.appCheck) {
+			onTokenChanged(
+				this.appCheck,
+				(result) => this.setToken(result.token),
+				(error) => {
+					this._error = error;
+				}
+			);
+		}
+		return this.appCheck;
+	}
+
+	/**
+	 * Stores a token and its expiry time
+	 * @private
+	 * @param {string} token App Check token
+	 */
+	private setToken(token: string): void {
+		this._token = token;
+		this._expiresAt = this.decodeExpiry(token);
+		this._error = null;
+	}
+
+	/**
+	 * Reads the expiry time from an App Check token
+	 * @private
+	 * @param {string} token App Check token (a JWT)
+	 * @returns {number | null} Expiry time in milliseconds since epoch, or null if unknown
+	 */
+	private decodeExpiry(token: string): number | null {
+		try {
+			const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+			const { exp } = JSON.parse(atob(payload));
+			return typeof exp === 'number' ? exp * 1000 : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Gets an App Check token, e.g. to protect your own backend endpoints
+	 * @param {boolean} [forceRefresh=false] Fetch a new token even if the cached one is valid
+	 * @returns {Promise<string | null>} The token, or null if App Check is not configured
+	 * @throws {Error} If the token could not be obtained
+	 *
+	 * @example
+	 * ```typescript
+	 * const token = await firekitAppCheck.getToken();
+	 * await fetch('/api/orders', { headers: { 'X-Firebase-AppCheck': token ?? '' } });
+	 * ```
+	 */
+	async getToken(forceRefresh: boolean = false): Promise<string | null> {
+		const appCheck = this.ensureListening();
+		if (!appCheck) return null;
+
+		try {
+			const { token } = await getToken(appCheck, forceRefresh);
+			this.setToken(token);
+			return token;
+		} catch (error) {
+			this._error = error instanceof Error ? error : new Error(String(error));
+			throw this._error;
+		}
+	}
+
+	/**
+	 * Gets a limited-use App Check token for endpoints with replay protection.
+	 * Limited-use tokens are not cached and do not affect the reactive state.
+	 * @returns {Promise<string | null>} The token, or null if App Check is not configured
+	 * @throws {Error} If the token could not be obtained
+	 */
+	async getLimitedUseToken(): Promise<string | null> {
+		const appCheck = this.ensureListening();
+		if (!appCheck) return null;
+
+		const { token } = await getLimitedUseToken(appCheck);
+		return token;
+	}
+
+	/**
+	 * Enables or disables automatic token refresh
+	 * @param {boolean} enabled Whether tokens are refreshed before they expire
+	 */
+	setAutoRefresh(enabled: boolean): void {
+		const appCheck = this.ensureListening();
+		if (appCheck) {
+			setTokenAutoRefreshEnabled(appCheck, enabled);
+		}
+	}
+
+	/** Gets the token status */
+	get status(): AppCheckTokenStatus {
+		if (!this.ensureListening()) return 'disabled';
+		if (this._error) return 'error';
+		if (!this._token) return 'pending';
+		if (this._expiresAt !== null && this._expiresAt <= Date.now()) return 'expired';
+		return 'valid';
+	}
+
+	/** Gets the current App Check token */
+	get token(): string | null {
+		this.ensureListening();
+		return this._token;
+	}
+
+	/** Gets the expiry time of the current token in milliseconds since epoch */
+	get expiresAt(): number | null {
+		this.ensureListening();
+		return this._expiresAt;
+	}
+
+	/** Gets the last token error */
+	get error(): Error | null {
+		this.ensureListening();
+		return this._error;
+	}
+
+	/** Checks if App Check is configured for this app */
+	get enabled(): boolean {
+		return this.ensureListening() !== null;
+	}
+}
+
+/**
+ * Pre-initialized App Check store for the default app.
+ * Use `firekitAppCheck.forApp(name)` for other apps.
+ */
+export const firekitAppCheck = FirekitAppCheck.getInstance();
+
+export type { FirekitAppCheck };
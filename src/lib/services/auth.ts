@@ -10,27 +10,64 @@ import {
 	RecaptchaVerifier,
 	signInWithEmailAndPassword,
 	signInWithPopup,
+	signInWithRedirect,
+	getRedirectResult as firebaseGetRedirectResult,
 	signInWithPhoneNumber as firebaseSignInWithPhoneNumber,
 	signInWithCredential,
+	sendSignInLinkToEmail,
+	isSignInWithEmailLink,
+	signInWithEmailLink,
+	linkWithCredential as firebaseLinkWithCredential,
+	linkWithPopup,
+	linkWithRedirect,
+	linkWithPhoneNumber,
+	unlink,
+	fetchSignInMethodsForEmail,
+	getMultiFactorResolver,
+	multiFactor,
+	PhoneMultiFactorGenerator,
+	TotpMultiFactorGenerator,
+	type MultiFactorAssertion,
+	type MultiFactorError,
+	type MultiFactorInfo,
+	type PhoneMultiFactorInfo,
 	signInAnonymously as firebaseSignInAnonymously,
 	createUserWithEmailAndPassword,
 	signOut,
 	sendPasswordResetEmail,
 	confirmPasswordReset,
+	checkActionCode,
+	applyActionCode,
+	verifyPasswordResetCode,
 	sendEmailVerification,
 	updateProfile,
 	updateEmail,
 	updatePassword,
 	reauthenticateWithCredential,
+	reauthenticateWithPopup,
+	reauthenticateWithPhoneNumber,
 	deleteUser,
 	reload,
 	getIdToken,
+	getIdTokenResult,
+	type IdTokenResult,
 	onAuthStateChanged,
+	onIdTokenChanged,
 	getAdditionalUserInfo,
-	type User
+	type User,
+	type UserCredential,
+	type AuthCredential,
+	type ActionCodeSettings,
+	type ConfirmationResult,
+	setPersistence as firebaseSetPersistence,
+	browserLocalPersistence,
+	browserSessionPersistence,
+	inMemoryPersistence,
+	type Persistence,
+	type Auth
 } from 'firebase/auth';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { firebaseService } from '../firebase.js';
+import { setDoc, serverTimestamp, deleteField } from 'firebase/firestore';
+import { firebaseService, getFirebaseService } from '../firebase.js';
 import {
 	type UserProfile,
 	type AuthState,
@@ -40,22 +77,115 @@ import {
 	type SignInResult,
 	type RegistrationResult,
 	type OAuthSignInResult,
+	type OAuthSignInOptions,
+	type OAuthProviderType,
+	type AuthMethodType,
+	type AccountLinkResult,
+	type EnrolledFactor,
+	type MultiFactorChallenge,
+	type TotpEnrollment,
+	type PhoneFactorEnrollment,
 	type ProfileUpdateResult,
 	type EmailVerificationResult,
 	type PasswordResetResult,
+	type SessionSyncOptions,
+	type EmailLinkOptions,
+	type EmailLinkCompletionOptions,
+	type AuthActionMode,
+	type AuthActionResult,
+	type ReauthenticationMethod,
+	type ReauthenticationCallback,
+	type PhoneReauthentication,
+	type PhoneSignInOptions,
+	type AuthResult,
+	type RecaptchaOptions,
+	type AuthConfig,
+	type AuthPersistence,
+	type IdleTimeoutOptions,
+	type UserClaims,
+	type AuthEventType,
+	type AuthEventData,
+	type AuthEventHandler,
 	AuthErrorCode,
-	FirekitAuthError
+	FirekitAuthError,
+	AccountLinkConflictError,
+	DEFAULT_SESSION_ENDPOINT
 } from '../types/auth.js';
+import { DEFAULT_APP_NAME } from '../types/firebase.js';
 import {
 	mapFirebaseUserToProfile,
 	updateUserInFirestore,
-	createGoogleProvider,
-	createFacebookProvider,
-	createAppleProvider,
+	getUserDocRef,
+	createAuthProvider,
+	getOAuthCredential,
+	toOAuthProviderType,
+	toFirebaseProviderId,
+	getCredentialFromError,
+	prefersRedirectSignIn,
+	getCustomClaims,
+	type FirekitAuthProvider,
 	handleAuthError
 } from '../utils/index.js';
+import { createIdleTimer, type IdleTimer } from '../utils/idle.js';
+import { lazySingleton } from '../utils/lazy.js';
 import { firekitPresence } from './presence.svelte.js';
 
+/** Session storage key marking a redirect sign-in started from this tab */
+const PENDING_REDIRECT_KEY = 'firekit:pending-redirect';
+
+/** Session storage key of the tenant set in this tab, kept across redirects and reloads */
+const TENANT_KEY = 'firekit:tenant';
+
+/** Local storage key of the email an email sign-in link was sent to */
+const EMAIL_FOR_SIGN_IN_KEY = 'firekit:email-for-sign-in';
+
+/** Firebase persistence of each persistence setting */
+const PERSISTENCE: Record<AuthPersistence, Persistence> = {
+	local: browserLocalPersistence,
+	session: browserSessionPersistence,
+	none: inMemoryPersistence
+};
+
+/** Default seconds before an SMS code can be resent */
+const DEFAULT_RESEND_COOLDOWN_SECONDS = 30;
+
+/** Popup errors that fall back to a redirect sign-in */
+const REDIRECT_FALLBACK_CODES: string[] = [
+	AuthErrorCode.POPUP_BLOCKED,
+	AuthErrorCode.OPERATION_NOT_SUPPORTED
+];
+
+/** Email actions handled by handleActionCode */
+const ACTION_MODES: AuthActionMode[] = [
+	'verifyEmail',
+	'resetPassword',
+	'recoverEmail',
+	'verifyAndChangeEmail'
+];
+
+/** Errors raised when a credential belongs to another account */
+const CREDENTIAL_CONFLICT_CODES: string[] = [
+	AuthErrorCode.CREDENTIAL_ALREADY_IN_USE,
+	AuthErrorCode.ACCOUNT_EXISTS_WITH_DIFFERENT_CREDENTIAL,
+	AuthErrorCode.EMAIL_ALREADY_IN_USE
+];
+
+/** Redirect sign-in or link started from this tab, kept across the redirect */
+interface PendingRedirect {
+	/** Firebase provider id */
+	providerId: string;
+	/** Whether the provider is linked to the signed-in user rather than signed in with */
+	link: boolean;
+	/** Whether the user was anonymous before linking */
+	wasAnonymous: boolean;
+}
+
+/** Change to the signed-in user broadcast to the other tabs of the app */
+interface AuthSyncMessage {
+	type: 'signOut' | 'profileUpdate' | 'claimsRefresh';
+	uid: string;
+}
+
 /**
  * Comprehensive Firebase Authentication service for Svelte applications.
  * Provides a complete authentication solution with automatic Firestore integration,
@@ -79,34 +209,113 @@ import { firekitPresence } from './presence.svelte.js';
  * ```
  */
 class FirekitAuth {
-	private static instance: FirekitAuth;
-	private auth: ReturnType<typeof firebaseService.getAuthInstance> | null = null;
-	private firestore: ReturnType<typeof firebaseService.getDbInstance> | null = null;
+	private static instances = new Map<string, FirekitAuth>();
+	private static authInstances = new WeakMap<Auth, FirekitAuth>();
+	private readonly appName: string;
+	/** Auth instance given to `forAuth`, used instead of the app's registered one */
+	private readonly providedAuth: Auth | null;
+	private _auth: ReturnType<typeof firebaseService.getAuthInstance> | null = null;
 	private _servicesInitialized = false;
 	private authState: AuthState = {
 		user: null,
 		loading: true,
-		initialized: false
+		initialized: false,
+		pendingRedirect: false,
+		tenantId: null
 	};
 	private stateListeners: Set<(state: AuthState) => void> = new Set();
-	private recaptchaVerifiers: Map<string, RecaptchaVerifier> = new Map();
+	private eventHandlers = new Map<AuthEventType, Set<AuthEventHandler>>();
+	private config: AuthConfig = {};
+	private idleTimer: IdleTimer | null = null;
+	private syncChannel: BroadcastChannel | null = null;
+	private recaptchaVerifiers: Map<string | HTMLElement, RecaptchaVerifier> = new Map();
+	private sessionEndpoint: string | null = null;
+	private sessionUid: string | null = null;
+	private pendingSessionSync: Promise<void> = Promise.resolve();
+	private redirectResult: Promise<
+		OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult> | AccountLinkResult | null
+	> = Promise.resolve(null);
+
+	private constructor(appName: string, providedAuth: Auth | null = null) {
+		this.appName = appName;
+		this.providedAuth = providedAuth;
+	}
 
-	private constructor() {
-		if (typeof window !== 'undefined') {
-			// Initialize Firebase services immediately like the old working code
-			this.initializeServices();
+	/**
+	 * Gets the FirekitAuth instance for a named Firebase app
+	 * @param {string} [appName] App name, defaults to the default app
+	 * @returns {FirekitAuth} The FirekitAuth instance
+	 */
+	static getInstance(appName: string = DEFAULT_APP_NAME): FirekitAuth {
+		let instance = FirekitAuth.instances.get(appName);
+		if (!instance) {
+			instance = new FirekitAuth(appName);
+			FirekitAuth.instances.set(appName, instance);
 		}
+		return instance;
 	}
 
 	/**
-	 * Gets singleton instance of FirekitAuth
-	 * @returns {FirekitAuth} The FirekitAuth instance
+	 * Gets the FirekitAuth instance bound to another Firebase app
+	 * @param {string} [appName] Name of the Firebase app, defaults to the default app
+	 * @returns {FirekitAuth} The FirekitAuth instance for that app
+	 *
+	 * @example
+	 * ```typescript
+	 * const warehouseAuth = firekitAuth.forApp('warehouse');
+	 * await warehouseAuth.signInAnonymously();
+	 * ```
+	 */
+	forApp(appName: string = DEFAULT_APP_NAME): FirekitAuth {
+		return FirekitAuth.getInstance(appName);
+	}
+
+	/**
+	 * Gets the FirekitAuth instance for an Auth instance, e.g. one provided through context.
+	 * The app's registered Auth instance maps to the same instance as `forApp`.
+	 * @param {Auth} auth Firebase Auth instance
+	 * @returns {FirekitAuth} The FirekitAuth instance using that Auth instance
+	 *
+	 * @example
+	 * ```typescript
+	 * // e.g. in a test, with an Auth instance connected to the emulator
+	 * const authService = firekitAuth.forAuth(testAuth);
+	 * ```
+	 */
+	forAuth(auth: Auth): FirekitAuth {
+		const appName = auth.app.name;
+		if (getFirebaseService(appName).auth === auth) return FirekitAuth.getInstance(appName);
+
+		let instance = FirekitAuth.authInstances.get(auth);
+		if (!instance) {
+			instance = new FirekitAuth(appName, auth);
+			FirekitAuth.authInstances.set(auth, instance);
+		}
+		return instance;
+	}
+
+	/**
+	 * Auth instance of the app, resolved on first use so that `createFirekit()` and
+	 * `configure()` calls made after importing firekit still apply
+	 * @private
+	 */
+	private get auth(): ReturnType<typeof firebaseService.getAuthInstance> | null {
+		this.initializeServices();
+		return this._auth;
+	}
+
+	/**
+	 * Firestore instance of the app, read on each use so that the instance recreated after
+	 * `firebaseService.terminate()` is picked up; null if Firestore is not available
+	 * @private
 	 */
-	static getInstance(): FirekitAuth {
-		if (!FirekitAuth.instance) {
-			FirekitAuth.instance = new FirekitAuth();
+	private get firestore(): ReturnType<typeof firebaseService.getDbInstance> | null {
+		if (typeof window === 'undefined') return null;
+		try {
+			return getFirebaseService(this.appName).getDbInstance();
+		} catch {
+			return null;
 		}
-		return FirekitAuth.instance;
 	}
 
 	/**
@@ -114,30 +323,32 @@ class FirekitAuth {
 	 * @private
 	 */
 	private initializeServices(): void {
-		if (this._servicesInitialized) return;
+		if (this._servicesInitialized || typeof window === 'undefined') return;
 
 		try {
-			this.auth = firebaseService.getAuthInstance();
-
-			// Try to get Firestore instance, but don't fail if it's not available
-			try {
-				this.firestore = firebaseService.getDbInstance();
-			} catch (firestoreError) {
-				console.warn(
-					'Firestore not available, continuing without Firestore integration:',
-					firestoreError
-				);
-				this.firestore = null;
+			const auth = this.providedAuth ?? getFirebaseService(this.appName).getAuthInstance();
+			// Redirect results only complete for the tenant the sign-in started with
+			if (auth) {
+				auth.tenantId = this.getStoredTenant() ?? auth.tenantId;
+				this.authState.tenantId = auth.tenantId;
 			}
 
+			this._auth = auth;
 			this._servicesInitialized = true;
+			if (this.config.persistence) {
+				this.setPersistence(this.config.persistence).catch((error) => {
+					console.error('Failed to set auth persistence:', error);
+				});
+			}
 			this.initializeAuthStateListener();
 		} catch (error) {
 			console.error('Failed to initialize Firebase services:', error);
 			this.authState = {
 				user: null,
 				loading: false,
-				initialized: true
+				initialized: true,
+				pendingRedirect: false,
+				tenantId: null
 			};
 			this.notifyStateListeners();
 		}
@@ -159,20 +370,340 @@ class FirekitAuth {
 				this.authState = {
 					user: user ? this.mapFirebaseUserToProfile(user) : null,
 					loading: false,
-					initialized: true
+					initialized: true,
+					pendingRedirect: this.authState.pendingRedirect,
+					tenantId: this.authState.tenantId
 				};
 				this.notifyStateListeners();
+				this.syncIdleTimer();
 			},
 			(error) => {
 				console.error('Auth state change error:', error);
 				this.authState = {
 					user: null,
 					loading: false,
-					initialized: true
+					initialized: true,
+					pendingRedirect: this.authState.pendingRedirect,
+					tenantId: this.authState.tenantId
 				};
 				this.notifyStateListeners();
 			}
 		);
+
+		// Keep the server session in sync on sign-in, sign-out and token refresh
+		onIdTokenChanged(this.auth, (user) => {
+			this.syncSession(user);
+		});
+
+		this.initializeSyncChannel();
+
+		this.redirectResult = this.processRedirectResult();
+		// Callers of getRedirectResult() still receive the error
+		this.redirectResult.catch((error) => {
+			console.error('Failed to complete redirect sign-in:', error);
+		});
+	}
+
+	/**
+	 * Completes a redirect sign-in or link started before the page was reloaded
+	 * @private
+	 */
+	private async processRedirectResult(): Promise<
+		OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult> | AccountLinkResult | null
+	> {
+		if (!this.auth) return null;
+
+		const pendingRedirect = this.getPendingRedirect();
+		if (pendingRedirect !== null) {
+			this.authState.pendingRedirect = true;
+			this.notifyStateListeners();
+		}
+
+		try {
+			const result = await firebaseGetRedirectResult(this.auth);
+			if (!result) return null;
+
+			if (pendingRedirect?.link) {
+				return await this.completeLink(
+					result,
+					result.providerId ?? pendingRedirect.providerId,
+					pendingRedirect.wasAnonymous
+				);
+			}
+
+			const providerId = toOAuthProviderType(result.providerId ?? '');
+			if (!providerId) return null;
+
+			return await this.completeOAuthSignIn(providerId, result);
+		} catch (error: any) {
+			const providerId = toOAuthProviderType(pendingRedirect?.providerId ?? '');
+			if (
+				error?.code === AuthErrorCode.MULTI_FACTOR_AUTH_REQUIRED &&
+				providerId &&
+				!pendingRedirect?.link
+			) {
+				return this.createMultiFactorChallenge(error, providerId, (userCredential) =>
+					this.completeOAuthSignIn(providerId, userCredential)
+				);
+			}
+			return await this.handleCredentialError(error);
+		} finally {
+			this.setPendingRedirect(false);
+		}
+	}
+
+	/**
+	 * Gets the tenant set in this tab before a redirect or reload
+	 * @private
+	 */
+	private getStoredTenant(): string | null {
+		try {
+			return sessionStorage.getItem(`${TENANT_KEY}:${this.appName}`);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Gets the redirect sign-in or link started from this tab
+	 * @private
+	 */
+	private getPendingRedirect(): PendingRedirect | null {
+		try {
+			const stored = sessionStorage.getItem(`${PENDING_REDIRECT_KEY}:${this.appName}`);
+			return stored ? (JSON.parse(stored) as PendingRedirect) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Updates the pending redirect state, persisting the redirect across it
+	 * @private
+	 */
+	private setPendingRedirect(pending: boolean, redirect?: PendingRedirect): void {
+		try {
+			const key = `${PENDING_REDIRECT_KEY}:${this.appName}`;
+			if (pending) {
+				sessionStorage.setItem(key, JSON.stringify(redirect));
+			} else {
+				sessionStorage.removeItem(key);
+			}
+		} catch {
+			// Storage unavailable; the state still updates for this page
+		}
+
+		if (this.authState.pendingRedirect !== pending) {
+			this.authState.pendingRedirect = pending;
+			this.notifyStateListeners();
+		}
+	}
+
+	/**
+	 * Starts a redirect sign-in, or links the provider to `user` if given.
+	 * The page navigates away; the result is processed on return.
+	 * @private
+	 */
+	private async redirectToProvider(provider: FirekitAuthProvider, user?: User): Promise<never> {
+		this.setPendingRedirect(true, {
+			providerId: provider.providerId,
+			link: !!user,
+			wasAnonymous: user?.isAnonymous ?? false
+		});
+		try {
+			return user
+				? await linkWithRedirect(user, provider)
+				: await signInWithRedirect(this.auth!, provider);
+		} catch (error) {
+			this.setPendingRedirect(false);
+			throw error;
+		}
+	}
+
+	/**
+	 * Syncs the signed-in user to Firestore and builds the OAuth sign-in result
+	 * @private
+	 */
+	private async completeOAuthSignIn(
+		providerId: OAuthProviderType,
+		result: UserCredential
+	): Promise<OAuthSignInResult> {
+		await this.updateUserInFirestore(result.user);
+
+		const userProfile = this.mapFirebaseUserToProfile(result.user);
+		const additionalUserInfo = getAdditionalUserInfo(result);
+		const isNewUser = additionalUserInfo?.isNewUser ?? false;
+		const credential = getOAuthCredential(providerId, result);
+		this.emitSignIn(userProfile, providerId, isNewUser);
+
+		return {
+			success: true,
+			user: userProfile,
+			method: providerId,
+			timestamp: new Date(),
+			isNewUser,
+			provider: providerId,
+			accessToken: credential?.accessToken,
+			idToken: credential?.idToken,
+			secret: credential?.secret
+		};
+	}
+
+	/**
+	 * Syncs a user signed in with email and builds the sign-in result
+	 * @private
+	 */
+	private async completeEmailSignIn(
+		userCredential: UserCredential,
+		method: AuthMethodType = 'email'
+	): Promise<SignInResult> {
+		await this.updateUserInFirestore(userCredential.user);
+
+		const userProfile = this.mapFirebaseUserToProfile(userCredential.user);
+		const additionalUserInfo = getAdditionalUserInfo(userCredential);
+		const isNewUser = additionalUserInfo?.isNewUser ?? false;
+		this.emitSignIn(userProfile, method, isNewUser);
+
+		return {
+			success: true,
+			user: userProfile,
+			method,
+			timestamp: new Date(),
+			isNewUser,
+			requiresEmailVerification: !userProfile.emailVerified
+		};
+	}
+
+	/**
+	 * Builds the challenge returned when a sign-in requires a second factor
+	 * @private
+	 */
+	private createMultiFactorChallenge<T extends SignInResult>(
+		error: MultiFactorError,
+		method: AuthMethodType,
+		complete: (userCredential: UserCredential) => Promise<T>
+	): MultiFactorChallenge<T> {
+		const resolver = getMultiFactorResolver(this.auth!, error);
+		let sms: { verificationId: string; containerId: string } | null = null;
+
+		const findHint = (factorId: string, factorUid?: string): MultiFactorInfo => {
+			const hint = resolver.hints.find(
+				(info) => info.factorId === factorId && (!factorUid || info.uid === factorUid)
+			);
+			if (!hint) {
+				throw new FirekitAuthError(
+					AuthErrorCode.MULTI_FACTOR_INFO_NOT_FOUND,
+					'No matching second factor is enrolled.'
+				);
+			}
+			return hint;
+		};
+
+		const resolve = async (assertion: MultiFactorAssertion): Promise<T> => {
+			try {
+				this.authState.loading = true;
+				this.notifyStateListeners();
+
+				return await complete(await resolver.resolveSignIn(assertion));
+			} catch (resolveError: any) {
+				this.handleAuthError(resolveError);
+			} finally {
+				this.authState.loading = false;
+				this.notifyStateListeners();
+			}
+		};
+
+		return {
+			success: false,
+			requiresMultiFactor: true,
+			method,
+			hints: resolver.hints.map((info) => this.mapMultiFactorInfo(info)),
+			resolveWithTotp: async (code, factorUid) => {
+				const hint = findHint(TotpMultiFactorGenerator.FACTOR_ID, factorUid);
+				return resolve(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code));
+			},
+			sendSmsCode: async (recaptchaContainerId, factorUid) => {
+				const hint = findHint(PhoneMultiFactorGenerator.FACTOR_ID, factorUid);
+				try {
+					const verifier = this.createRecaptchaVerifier(recaptchaContainerId);
+					const verificationId = await new PhoneAuthProvider(this.auth!).verifyPhoneNumber(
+						{ multiFactorHint: hint, session: resolver.session },
+						verifier
+					);
+					sms = { verificationId, containerId: recaptchaContainerId };
+					return verificationId;
+				} catch (smsError: any) {
+					// A rendered verifier must be cleared before the container can take another
+					this.clearRecaptchaVerifier(recaptchaContainerId);
+					this.handleAuthError(smsError);
+				}
+			},
+			resolveWithSms: async (code) => {
+				if (!sms) {
+					throw new FirekitAuthError(
+						AuthErrorCode.INVALID_VERIFICATION_ID,
+						'Call sendSmsCode before resolveWithSms.'
+					);
+				}
+				const { verificationId, containerId } = sms;
+				const result = await resolve(
+					PhoneMultiFactorGenerator.assertion(PhoneAuthProvider.credential(verificationId, code))
+				);
+				this.recaptchaVerifiers.get(containerId)?.clear();
+				this.recaptchaVerifiers.delete(containerId);
+				return result;
+			}
+		};
+	}
+
+	/**
+	 * Maps a Firebase MultiFactorInfo to an EnrolledFactor
+	 * @private
+	 */
+	private mapMultiFactorInfo(info: MultiFactorInfo): EnrolledFactor {
+		return {
+			uid: info.uid,
+			factorId: info.factorId as EnrolledFactor['factorId'],
+			displayName: info.displayName ?? null,
+			enrollmentTime: info.enrollmentTime,
+			...(info.factorId === PhoneMultiFactorGenerator.FACTOR_ID && {
+				phoneNumber: (info as PhoneMultiFactorInfo).phoneNumber
+			})
+		};
+	}
+
+	/**
+	 * Queues a session update so requests reach the endpoint in order
+	 * @private
+	 */
+	private syncSession(user: User | null): Promise<void> {
+		this.pendingSessionSync = this.pendingSessionSync.then(() => this.postSession(user));
+		return this.pendingSessionSync;
+	}
+
+	/**
+	 * Posts a fresh ID token to the session endpoint, or clears the session when signed out
+	 * @private
+	 */
+	private async postSession(user: User | null): Promise<void> {
+		if (!this.sessionEndpoint) return;
+
+		try {
+			if (user) {
+				const idToken = await getIdToken(user);
+				this.sessionUid = user.uid;
+				await fetch(this.sessionEndpoint, {
+					method: 'POST',
+					headers: { 'content-type': 'application/json' },
+					body: JSON.stringify({ idToken })
+				});
+			} else if (this.sessionUid) {
+				this.sessionUid = null;
+				await fetch(this.sessionEndpoint, { method: 'DELETE' });
+			}
+		} catch (error) {
+			console.warn('Failed to sync auth session with the server:', error);
+		}
 	}
 
 	/**
@@ -200,7 +731,7 @@ class FirekitAuth {
 			console.warn('Firestore not available, skipping user update in Firestore');
 			return;
 		}
-		await updateUserInFirestore(this.firestore, user);
+		await updateUserInFirestore(this.firestore, user, this.config);
 	}
 
 	/**
@@ -208,116 +739,632 @@ class FirekitAuth {
 	 * @private
 	 */
 	private handleAuthError(error: any): never {
-		handleAuthError(error);
+		try {
+			handleAuthError(error);
+		} catch (firekitError) {
+			// Errors already handled by a nested call carry their original error
+			if (!(error instanceof FirekitAuthError && error.originalError)) {
+				this.emit('error', { error: firekitError as FirekitAuthError });
+			}
+			throw firekitError;
+		}
 	}
 
 	/**
-	 * Gets the current authentication state
-	 * @returns {AuthState} Current authentication state
+	 * Notifies event handlers of an auth event
+	 * @private
 	 */
-	getState(): AuthState {
-		return { ...this.authState };
+	private emit(type: AuthEventType, data: Omit<AuthEventData, 'type' | 'timestamp'> = {}): void {
+		const event: AuthEventData = {
+			type,
+			user: this.authState.user,
+			...data,
+			timestamp: new Date()
+		};
+
+		this.eventHandlers.get(type)?.forEach((handler) => {
+			try {
+				handler(event);
+			} catch (handlerError) {
+				console.error(`Auth event handler for "${type}" failed:`, handlerError);
+			}
+		});
 	}
 
 	/**
-	 * Gets the current authenticated user
-	 * @returns {User | null} Current Firebase user or null
+	 * Emits `signUp` for newly created users and `signIn` otherwise
+	 * @private
 	 */
-	getCurrentUser(): User | null {
-		return this.auth?.currentUser ?? null;
+	private emitSignIn(user: UserProfile, method: AuthMethodType, isNewUser: boolean): void {
+		this.emit(isNewUser ? 'signUp' : 'signIn', { user, method });
 	}
 
 	/**
-	 * Gets the current user profile
-	 * @returns {UserProfile | null} Current user profile or null
+	 * Applies a per-sign-in "remember me" choice over the configured persistence
+	 * @private
 	 */
-	getCurrentUserProfile(): UserProfile | null {
-		return this.authState.user;
+	private async applyRememberMe(rememberMe?: boolean): Promise<void> {
+		if (rememberMe === undefined) return;
+		await firebaseSetPersistence(this.auth!, PERSISTENCE[rememberMe ? 'local' : 'session']);
 	}
 
 	/**
-	 * Waits for auth initialization to complete
-	 * @returns {Promise<UserProfile | null>} Promise that resolves when auth is initialized
+	 * Runs the idle timer while a non-anonymous user is signed in and a timeout is configured
+	 * @private
 	 */
-	async waitForAuth(): Promise<UserProfile | null> {
-		return new Promise((resolve) => {
-			if (this.authState.initialized) {
-				resolve(this.authState.user);
-				return;
+	private syncIdleTimer(restart: boolean = false): void {
+		const options = this.config.idleTimeout;
+		const shouldRun =
+			typeof window !== 'undefined' &&
+			!!options &&
+			!!this.authState.user &&
+			!this.authState.user.isAnonymous;
+
+		if (this.idleTimer && (restart || !shouldRun)) {
+			this.idleTimer.stop();
+			this.idleTimer = null;
+		}
+		if (!shouldRun || this.idleTimer) return;
+
+		this.idleTimer = createIdleTimer({
+			timeout: (options.timeoutMinutes ?? 30) * 60 * 1000,
+			warning: (options.warningSeconds ?? 60) * 1000,
+			channelName: `firekit:idle:${this.appName}`,
+			activityEvents: options.activityEvents,
+			onWarning: (expiresAt) => this.emit('idleWarning', { expiresAt }),
+			onReset: () => this.emit('idleReset'),
+			onTimeout: () => {
+				this.idleTimer = null;
+				this.emit('idleTimeout');
+				this.signOut().catch((error) => {
+					console.error('Failed to sign out idle session:', error);
+				});
 			}
+		});
+	}
 
-			const unsubscribe = this.onAuthStateChanged((state) => {
-				if (state.initialized) {
-					unsubscribe();
-					resolve(state.user);
-				}
+	/**
+	 * Listens for sign-outs, profile updates and claims refreshes made in other tabs
+	 * @private
+	 */
+	private initializeSyncChannel(): void {
+		if (typeof BroadcastChannel === 'undefined') return;
+
+		this.syncChannel = new BroadcastChannel(`firekit:auth:${this.appName}`);
+		this.syncChannel.addEventListener('message', (event: MessageEvent<AuthSyncMessage>) => {
+			this.handleSyncMessage(event.data).catch((error) => {
+				console.error('Failed to apply auth change from another tab:', error);
 			});
 		});
 	}
 
 	/**
-	 * Subscribes to authentication state changes
-	 * @param {Function} callback Callback function to handle state changes
-	 * @returns {Function} Unsubscribe function
+	 * Tells the other tabs about a change to the signed-in user
+	 * @private
 	 */
-	onAuthStateChanged(callback: (state: AuthState) => void): () => void {
-		this.stateListeners.add(callback);
+	private broadcast(type: AuthSyncMessage['type'], uid: string): void {
+		const message: AuthSyncMessage = { type, uid };
+		this.syncChannel?.postMessage(message);
+	}
 
-		// Immediately call with current state
-		callback(this.authState);
+	/**
+	 * Applies a change made in another tab, if it concerns the user signed in here.
+	 * Firebase would eventually pick up sign-outs and refreshed tokens on its own,
+	 * but not profile changes, and only after its next storage poll or token refresh.
+	 * @private
+	 */
+	private async handleSyncMessage(message: AuthSyncMessage): Promise<void> {
+		const currentUser = this.auth?.currentUser;
+		if (!currentUser || currentUser.uid !== message.uid) return;
+
+		switch (message.type) {
+			case 'signOut': {
+				const user = this.authState.user;
+				await signOut(this.auth!);
+				this.emit('signOut', { user });
+				break;
+			}
+			case 'profileUpdate':
+				await reload(currentUser);
+				this.refreshUserState();
+				this.emit('profileUpdate');
+				break;
+			case 'claimsRefresh':
+				await getIdTokenResult(currentUser, true);
+				this.emit('claimsRefresh');
+				break;
+		}
+	}
 
-		return () => {
-			this.stateListeners.delete(callback);
+	/**
+	 * Republishes the current user after its profile changed in place
+	 * @private
+	 */
+	private refreshUserState(): void {
+		if (!this.auth?.currentUser) return;
+
+		this.authState = {
+			...this.authState,
+			user: this.mapFirebaseUserToProfile(this.auth.currentUser)
 		};
+		this.notifyStateListeners();
 	}
 
-	// ========================================
-	// SIGN IN METHODS
-	// ========================================
-
 	/**
-	 * Signs in user with email and password
-	 * @param {string} email User's email address
-	 * @param {string} password User's password
-	 * @returns {Promise<SignInResult>} Promise resolving to sign-in result
-	 * @throws {FirekitAuthError} If sign-in fails
-	 *
-	 * @example
-	 * ```typescript
-	 * try {
-	 *   const result = await firekitAuth.signInWithEmail("user@example.com", "password123");
-	 *   console.log("Signed in:", result.user.displayName);
-	 *   console.log("Is new user:", result.isNewUser);
-	 * } catch (error) {
-	 *   console.error("Sign-in failed:", error.message);
-	 * }
-	 * ```
+	 * Handles errors of operations that can hit a credential owned by another account.
+	 * Conflicts throw an AccountLinkConflictError; other errors go through handleAuthError.
+	 * @private
 	 */
-	async signInWithEmail(email: string, password: string): Promise<SignInResult> {
-		if (!this.auth) {
-			throw new Error('Auth instance not available');
+	private async handleCredentialError(
+		error: any,
+		pendingCredential?: AuthCredential
+	): Promise<never> {
+		if (!CREDENTIAL_CONFLICT_CODES.includes(error?.code)) {
+			this.handleAuthError(error);
 		}
 
-		try {
-			this.authState.loading = true;
-			this.notifyStateListeners();
+		const email: string | null = error.customData?.email ?? null;
+		let signInMethods: string[] = [];
+		if (email && this.auth) {
+			try {
+				signInMethods = await fetchSignInMethodsForEmail(this.auth, email);
+			} catch {
+				// Not available with email enumeration protection
+			}
+		}
 
-			const userCredential = await signInWithEmailAndPassword(this.auth, email, password);
-			await this.updateUserInFirestore(userCredential.user);
+		const conflictError = new AccountLinkConflictError(
+			error.code,
+			new FirekitAuthError(error.code, error.message).getFriendlyMessage(),
+			pendingCredential ?? getCredentialFromError(error),
+			email,
+			signInMethods,
+			error
+		);
+		this.emit('error', { error: conflictError });
+		throw conflictError;
+	}
 
-			const userProfile = this.mapFirebaseUserToProfile(userCredential.user);
-			const additionalUserInfo = getAdditionalUserInfo(userCredential);
-			const isNewUser = additionalUserInfo?.isNewUser ?? false;
+	/**
+	 * Creates a reCAPTCHA verifier, replacing any existing one for the container.
+	 * Visible verifiers are reset when the solved check expires.
+	 * @private
+	 */
+	private createRecaptchaVerifier(
+		container: string | HTMLElement,
+		options: RecaptchaOptions = {}
+	): RecaptchaVerifier {
+		this.clearRecaptchaVerifier(container);
+
+		const size = options.size ?? 'normal';
+		const recaptchaVerifier = new RecaptchaVerifier(this.auth!, container, {
+			size,
+			theme: options.theme,
+			callback: (response: string) => {
+				options.onSolved?.(response);
+			},
+			'expired-callback': () => {
+				options.onExpired?.();
+				// Invisible verifiers re-run the check on their next use
+				if (size !== 'invisible' && this.recaptchaVerifiers.get(container) === recaptchaVerifier) {
+					this.createRecaptchaVerifier(container, options)
+						.render()
+						.catch((error) => console.warn('Failed to reset reCAPTCHA:', error));
+				}
+			}
+		});
 
-			return {
-				success: true,
-				user: userProfile,
-				method: 'email',
-				timestamp: new Date(),
-				isNewUser,
-				requiresEmailVerification: !userProfile.emailVerified
-			};
+		this.recaptchaVerifiers.set(container, recaptchaVerifier);
+		return recaptchaVerifier;
+	}
+
+	/**
+	 * Sends an SMS code and builds a verification result supporting resends with cooldown
+	 * @private
+	 */
+	private async startPhoneVerification<T extends AuthResult>(
+		container: string | HTMLElement,
+		options: PhoneSignInOptions,
+		send: (verifier: RecaptchaVerifier) => Promise<ConfirmationResult>,
+		complete: (userCredential: UserCredential) => Promise<T>,
+		handleError: (error: any) => Promise<never>
+	): Promise<PhoneVerificationResult<T>> {
+		const cooldownMs = (options.resendCooldownSeconds ?? DEFAULT_RESEND_COOLDOWN_SECONDS) * 1000;
+
+		const sendCode = async (): Promise<ConfirmationResult> => {
+			// A verifier is spent once used, so every send gets a fresh one
+			const verifier = this.createRecaptchaVerifier(container, options.recaptcha);
+			try {
+				return await send(verifier);
+			} catch (error: any) {
+				// A rendered verifier must be cleared before the container can take another
+				this.clearRecaptchaVerifier(container);
+				throw error;
+			}
+		};
+
+		let confirmationResult = await sendCode();
+
+		const verification: PhoneVerificationResult<T> = {
+			verificationId: confirmationResult.verificationId,
+			resendCount: 0,
+			resendAvailableAt: new Date(Date.now() + cooldownMs),
+			getResendCooldown: () =>
+				Math.max(0, Math.ceil((verification.resendAvailableAt.getTime() - Date.now()) / 1000)),
+			resend: async () => {
+				const cooldown = verification.getResendCooldown();
+				if (cooldown > 0) {
+					throw new FirekitAuthError(
+						AuthErrorCode.CODE_RESEND_COOLDOWN,
+						`A new code can be requested in ${cooldown} seconds.`
+					);
+				}
+
+				try {
+					confirmationResult = await sendCode();
+				} catch (error: any) {
+					return await handleError(error);
+				}
+
+				verification.verificationId = confirmationResult.verificationId;
+				verification.resendCount++;
+				verification.resendAvailableAt = new Date(Date.now() + cooldownMs);
+			},
+			confirm: async (verificationCode: string): Promise<T> => {
+				let result: T;
+				try {
+					result = await complete(await confirmationResult.confirm(verificationCode));
+				} catch (error: any) {
+					// Keep the verifier so the code can be resent after a failed attempt
+					return await handleError(error);
+				}
+
+				this.clearRecaptchaVerifier(container);
+				return result;
+			}
+		};
+
+		return verification;
+	}
+
+	/**
+	 * Syncs a linked user to Firestore and auth state and builds the link result
+	 * @private
+	 */
+	private async completeLink(
+		result: UserCredential,
+		providerId: string,
+		wasAnonymous: boolean
+	): Promise<AccountLinkResult> {
+		await this.updateUserInFirestore(result.user);
+
+		// Linking keeps the signed-in user, so onAuthStateChanged does not fire
+		const userProfile = this.mapFirebaseUserToProfile(result.user);
+		this.authState.user = userProfile;
+		this.notifyStateListeners();
+
+		const oauthProvider = toOAuthProviderType(providerId);
+		const credential = oauthProvider ? getOAuthCredential(oauthProvider, result) : null;
+		const method = this.toAuthMethod(providerId);
+		this.emit('accountLink', { user: userProfile, method });
+
+		return {
+			success: true,
+			user: userProfile,
+			method,
+			timestamp: new Date(),
+			providerId,
+			upgradedFromAnonymous: wasAnonymous,
+			accessToken: credential?.accessToken,
+			idToken: credential?.idToken
+		};
+	}
+
+	/**
+	 * Maps a Firebase provider id to its auth method
+	 * @private
+	 */
+	private toAuthMethod(providerId: string): AuthMethodType {
+		if (providerId === 'phone') return 'phone';
+		return toOAuthProviderType(providerId) ?? 'email';
+	}
+
+	/**
+	 * Gets the current authentication state
+	 * @returns {AuthState} Current authentication state
+	 */
+	getState(): AuthState {
+		this.initializeServices();
+		return { ...this.authState };
+	}
+
+	/**
+	 * Gets the current authenticated user
+	 * @returns {User | null} Current Firebase user or null
+	 */
+	getCurrentUser(): User | null {
+		return this.auth?.currentUser ?? null;
+	}
+
+	/**
+	 * Gets the current user profile
+	 * @returns {UserProfile | null} Current user profile or null
+	 */
+	getCurrentUserProfile(): UserProfile | null {
+		return this.authState.user;
+	}
+
+	/**
+	 * Waits for auth initialization to complete
+	 * @returns {Promise<UserProfile | null>} Promise that resolves when auth is initialized
+	 */
+	async waitForAuth(): Promise<UserProfile | null> {
+		return new Promise((resolve) => {
+			if (this.authState.initialized) {
+				resolve(this.authState.user);
+				return;
+			}
+
+			const unsubscribe = this.onAuthStateChanged((state) => {
+				if (state.initialized) {
+					unsubscribe();
+					resolve(state.user);
+				}
+			});
+		});
+	}
+
+	/**
+	 * Subscribes to authentication state changes
+	 * @param {Function} callback Callback function to handle state changes
+	 * @returns {Function} Unsubscribe function
+	 */
+	onAuthStateChanged(callback: (state: AuthState) => void): () => void {
+		this.initializeServices();
+		this.stateListeners.add(callback);
+
+		// Immediately call with current state
+		callback(this.authState);
+
+		return () => {
+			this.stateListeners.delete(callback);
+		};
+	}
+
+	/**
+	 * Syncs the auth state to a server session endpoint handled by `firekitHandle`.
+	 * A fresh ID token is posted on sign-in and token refresh, and the session is
+	 * cleared on sign-out, so `event.locals.user` is available in server load functions.
+	 * @param {SessionSyncOptions} [options] Session sync options
+	 * @returns {Promise<void>} Promise that resolves once the current user is synced
+	 *
+	 * @example
+	 * ```typescript
+	 * // src/routes/+layout.svelte
+	 * firekitAuth.enableSessionSync();
+	 * ```
+	 */
+	enableSessionSync(options: SessionSyncOptions = {}): Promise<void> {
+		this.sessionEndpoint = options.endpoint ?? DEFAULT_SESSION_ENDPOINT;
+		return this.syncSession(this.auth?.currentUser ?? null);
+	}
+
+	/**
+	 * Stops syncing the auth state to the server session endpoint
+	 */
+	disableSessionSync(): void {
+		this.sessionEndpoint = null;
+	}
+
+	/**
+	 * Sets the Identity Platform tenant used by all subsequent sign-in and registration calls.
+	 * The tenant is kept for this tab across redirects and reloads.
+	 * Users signed in to another tenant stay signed in; use the `tenant` prop of `AuthGuard` to reject them.
+	 * @param {string | null} tenantId Tenant ID, or null to sign in to the project itself
+	 *
+	 * @example
+	 * ```typescript
+	 * firekitAuth.setTenant('acme-corp-x7k2p');
+	 * await firekitAuth.signInWithEmail(email, password);
+	 * ```
+	 */
+	setTenant(tenantId: string | null): void {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		this.auth.tenantId = tenantId;
+
+		try {
+			const key = `${TENANT_KEY}:${this.appName}`;
+			if (tenantId) {
+				sessionStorage.setItem(key, tenantId);
+			} else {
+				sessionStorage.removeItem(key);
+			}
+		} catch {
+			// Storage unavailable; the tenant still applies to this page
+		}
+
+		this.authState.tenantId = tenantId;
+		this.notifyStateListeners();
+	}
+
+	/**
+	 * Gets the Identity Platform tenant used for sign-in
+	 * @returns {string | null} Tenant ID, or null for the project
+	 */
+	get tenantId(): string | null {
+		return this.auth?.tenantId ?? null;
+	}
+
+	/**
+	 * Subscribes to authentication events such as sign-in, sign-up and errors
+	 * @param {AuthEventType} type Event type
+	 * @param {AuthEventHandler} handler Handler receiving the event with the method used
+	 * @returns {Function} Unsubscribe function
+	 *
+	 * @example
+	 * ```typescript
+	 * const unsubscribe = firekitAuth.on('signUp', (event) => {
+	 *   console.log(`New ${event.method} user:`, event.user?.uid);
+	 * });
+	 * ```
+	 */
+	on(type: AuthEventType, handler: AuthEventHandler): () => void {
+		let handlers = this.eventHandlers.get(type);
+		if (!handlers) {
+			handlers = new Set();
+			this.eventHandlers.set(type, handlers);
+		}
+		handlers.add(handler);
+
+		return () => {
+			handlers.delete(handler);
+		};
+	}
+
+	/**
+	 * Configures the authentication service
+	 * @param {AuthConfig} config Configuration, merged over the current one
+	 *
+	 * @example
+	 * ```typescript
+	 * firekitAuth.configure({
+	 *   usersCollectionPath: 'accounts',
+	 *   syncOnCreateOnly: true,
+	 *   errorMessages: { 'auth/wrong-password': 'Mot de passe incorrect.' }
+	 * });
+	 * ```
+	 */
+	configure(config: AuthConfig): void {
+		this.config = { ...this.config, ...config };
+
+		if (config.errorMessages) {
+			FirekitAuthError.setMessageOverrides(config.errorMessages);
+		}
+		// Persistence only applies in the browser, and is applied on initialization otherwise
+		if (config.persistence && this._auth) {
+			this.setPersistence(config.persistence).catch((error) => {
+				console.error('Failed to set auth persistence:', error);
+			});
+		}
+		if ('idleTimeout' in config) {
+			this.syncIdleTimer(true);
+		}
+	}
+
+	/**
+	 * Sets where the signed-in user is persisted, e.g. `session` on shared machines
+	 * @param {AuthPersistence} persistence 'local', 'session' or 'none'
+	 * @returns {Promise<void>} Promise that resolves when the persistence is applied
+	 * @throws {FirekitAuthError} If the persistence is not supported
+	 *
+	 * @example
+	 * ```typescript
+	 * await firekitAuth.setPersistence('session');
+	 * ```
+	 */
+	async setPersistence(persistence: AuthPersistence): Promise<void> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		try {
+			await firebaseSetPersistence(this.auth, PERSISTENCE[persistence]);
+			this.config = { ...this.config, persistence };
+		} catch (error: any) {
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Signs the user out after a period of inactivity across all tabs.
+	 * Emits `idleWarning` before signing out and `idleReset` when activity resumes in time.
+	 * Anonymous users are never signed out.
+	 * @param {IdleTimeoutOptions} [options] Timeout, warning period and activity events
+	 *
+	 * @example
+	 * ```typescript
+	 * firekitAuth.enableIdleTimeout({ timeoutMinutes: 15, warningSeconds: 60 });
+	 * firekitAuth.on('idleWarning', ({ expiresAt }) => showWarning(expiresAt));
+	 * ```
+	 */
+	enableIdleTimeout(options: IdleTimeoutOptions = {}): void {
+		this.configure({ idleTimeout: options });
+	}
+
+	/**
+	 * Stops signing the user out after inactivity
+	 */
+	disableIdleTimeout(): void {
+		this.configure({ idleTimeout: undefined });
+	}
+
+	/**
+	 * Records user activity, e.g. when the user confirms they are still there after a warning
+	 */
+	resetIdleTimer(): void {
+		this.idleTimer?.reset();
+	}
+
+	/**
+	 * Gets the current configuration
+	 * @returns {Readonly<AuthConfig>} Current configuration
+	 */
+	getConfig(): Readonly<AuthConfig> {
+		return this.config;
+	}
+
+	// ========================================
+	// SIGN IN METHODS
+	// ========================================
+
+	/**
+	 * Signs in user with email and password
+	 * @param {string} email User's email address
+	 * @param {string} password User's password
+	 * @param {boolean} [rememberMe] Keep the user signed in across browser restarts (default: the configured persistence)
+	 * @returns {Promise<SignInResult | MultiFactorChallenge>} Promise resolving to sign-in result,
+	 * or to a challenge if the user has enrolled a second factor
+	 * @throws {FirekitAuthError} If sign-in fails
+	 *
+	 * @example
+	 * ```typescript
+	 * try {
+	 *   let result = await firekitAuth.signInWithEmail("user@example.com", "password123");
+	 *   if (isMultiFactorChallenge(result)) {
+	 *     result = await result.resolveWithTotp(prompt("Authenticator code"));
+	 *   }
+	 *   console.log("Signed in:", result.user.displayName);
+	 *   console.log("Is new user:", result.isNewUser);
+	 * } catch (error) {
+	 *   console.error("Sign-in failed:", error.message);
+	 * }
+	 * ```
+	 */
+	async signInWithEmail(
+		email: string,
+		password: string,
+		rememberMe?: boolean
+	): Promise<SignInResult | MultiFactorChallenge> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		try {
+			this.authState.loading = true;
+			this.notifyStateListeners();
+
+			await this.applyRememberMe(rememberMe);
+			const userCredential = await signInWithEmailAndPassword(this.auth, email, password);
+			return await this.completeEmailSignIn(userCredential);
 		} catch (error: any) {
+			if (error?.code === AuthErrorCode.MULTI_FACTOR_AUTH_REQUIRED) {
+				return this.createMultiFactorChallenge(error, 'email', (userCredential) =>
+					this.completeEmailSignIn(userCredential)
+				);
+			}
 			this.handleAuthError(error);
 		} finally {
 			this.authState.loading = false;
@@ -326,8 +1373,9 @@ class FirekitAuth {
 	}
 
 	/**
-	 * Signs in user with Google popup
-	 * @returns {Promise<OAuthSignInResult>} Promise resolving to OAuth sign-in result
+	 * Signs in user with Google
+	 * @param {OAuthSignInOptions} [options] Scopes, custom parameters and sign-in mode
+	 * @returns {Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>>} Promise resolving to OAuth sign-in result, or to a challenge if a second factor is required
 	 * @throws {FirekitAuthError} If sign-in fails
 	 *
 	 * @example
@@ -344,7 +1392,67 @@ class FirekitAuth {
 	 * }
 	 * ```
 	 */
-	async signInWithGoogle(): Promise<OAuthSignInResult> {
+	async signInWithGoogle(
+		options: OAuthSignInOptions = {}
+	): Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>> {
+		return this.signInWithProvider('google', options);
+	}
+
+	/**
+	 * Signs in user with Facebook
+	 * @param {OAuthSignInOptions} [options] Scopes, custom parameters and sign-in mode
+	 * @returns {Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>>} Promise resolving to OAuth sign-in result, or to a challenge if a second factor is required
+	 * @throws {FirekitAuthError} If sign-in fails
+	 */
+	async signInWithFacebook(
+		options: OAuthSignInOptions = {}
+	): Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>> {
+		return this.signInWithProvider('facebook', options);
+	}
+
+	/**
+	 * Signs in user with Apple
+	 * @param {OAuthSignInOptions} [options] Scopes, custom parameters and sign-in mode
+	 * @returns {Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>>} Promise resolving to OAuth sign-in result, or to a challenge if a second factor is required
+	 * @throws {FirekitAuthError} If sign-in fails
+	 */
+	async signInWithApple(
+		options: OAuthSignInOptions = {}
+	): Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>> {
+		return this.signInWithProvider('apple', options);
+	}
+
+	/**
+	 * Signs in user with any OAuth, OIDC or SAML provider.
+	 * Built-in providers are google, facebook, apple, microsoft, github and twitter;
+	 * `oidc.*` and `saml.*` ids use the provider configured in the Firebase console.
+	 * Providers registered with `registerAuthProvider` take precedence.
+	 *
+	 * Popup sign-ins fall back to a redirect when the popup is blocked or unsupported.
+	 * After a redirect, the result is processed on the next page load and available
+	 * from `getRedirectResult()`.
+	 *
+	 * @param {OAuthProviderType} providerId Provider id
+	 * @param {OAuthSignInOptions} [options] Scopes, custom parameters and sign-in mode
+	 * @returns {Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>>} Promise resolving to OAuth sign-in result, or to a challenge if a second factor is required
+	 * @throws {FirekitAuthError} If sign-in fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await firekitAuth.signInWithProvider('github', {
+	 *   scopes: ['repo'],
+	 *   customParameters: { allow_signup: 'false' }
+	 * });
+	 * console.log("GitHub access token:", result.accessToken);
+	 *
+	 * // Custom OIDC provider, redirecting in PWAs and webviews
+	 * await firekitAuth.signInWithProvider('oidc.my-idp', { mode: 'auto' });
+	 * ```
+	 */
+	async signInWithProvider(
+		providerId: OAuthProviderType,
+		options: OAuthSignInOptions = {}
+	): Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult>> {
 		if (!this.auth) {
 			throw new Error('Auth instance not available');
 		}
@@ -353,22 +1461,99 @@ class FirekitAuth {
 			this.authState.loading = true;
 			this.notifyStateListeners();
 
-			const provider = createGoogleProvider();
+			const provider = createAuthProvider(providerId, options);
+			const mode = options.mode ?? 'popup';
+			await this.applyRememberMe(options.rememberMe);
+
+			if (mode === 'redirect' || (mode === 'auto' && prefersRedirectSignIn())) {
+				return await this.redirectToProvider(provider);
+			}
+
+			let result: UserCredential;
+			try {
+				result = await signInWithPopup(this.auth, provider);
+			} catch (popupError: any) {
+				if (!REDIRECT_FALLBACK_CODES.includes(popupError?.code)) throw popupError;
+				console.warn(`Popup sign-in unavailable (${popupError.code}), falling back to redirect`);
+				return await this.redirectToProvider(provider);
+			}
+
+			return await this.completeOAuthSignIn(providerId, result);
+		} catch (error: any) {
+			if (error?.code === AuthErrorCode.MULTI_FACTOR_AUTH_REQUIRED) {
+				return this.createMultiFactorChallenge(error, providerId, (userCredential) =>
+					this.completeOAuthSignIn(providerId, userCredential)
+				);
+			}
+			return await this.handleCredentialError(error);
+		} finally {
+			this.authState.loading = false;
+			this.notifyStateListeners();
+		}
+	}
+
+	/**
+	 * Gets the result of a redirect sign-in or link completed on this page load
+	 * @returns {Promise<OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult> | AccountLinkResult | null>} Sign-in result or challenge, link result after `linkWithProvider`, or null if there was no redirect
+	 * @throws {FirekitAuthError} If the redirect sign-in or link failed
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await firekitAuth.getRedirectResult();
+	 * if (result && 'isNewUser' in result && result.isNewUser) {
+	 *   goto('/welcome');
+	 * }
+	 * ```
+	 */
+	async getRedirectResult(): Promise<
+		OAuthSignInResult | MultiFactorChallenge<OAuthSignInResult> | AccountLinkResult | null
+	> {
+		return this.redirectResult;
+	}
+
+	/**
+	 * Whether a redirect sign-in is in progress or its result is being processed
+	 * @returns {boolean} True while a redirect sign-in is pending
+	 */
+	get pendingRedirect(): boolean {
+		return this.authState.pendingRedirect;
+	}
 
-			const result = await signInWithPopup(this.auth, provider);
+	/**
+	 * Signs in user anonymously
+	 * @returns {Promise<SignInResult>} Promise resolving to sign-in result
+	 * @throws {FirekitAuthError} If sign-in fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await firekitAuth.signInAnonymously();
+	 * console.log("Anonymous user:", result.user.uid);
+	 * console.log("Is new user:", result.isNewUser);
+	 * ```
+	 */
+	async signInAnonymously(): Promise<SignInResult> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		try {
+			this.authState.loading = true;
+			this.notifyStateListeners();
+
+			const result = await firebaseSignInAnonymously(this.auth);
 			await this.updateUserInFirestore(result.user);
 
 			const userProfile = this.mapFirebaseUserToProfile(result.user);
 			const additionalUserInfo = getAdditionalUserInfo(result);
 			const isNewUser = additionalUserInfo?.isNewUser ?? false;
+			this.emitSignIn(userProfile, 'anonymous', isNewUser);
 
 			return {
 				success: true,
 				user: userProfile,
-				method: 'google',
+				method: 'anonymous',
 				timestamp: new Date(),
-				isNewUser,
-				provider: 'google'
+				isNewUser
 			};
 		} catch (error: any) {
 			this.handleAuthError(error);
@@ -379,208 +1564,585 @@ class FirekitAuth {
 	}
 
 	/**
-	 * Signs in user with Facebook popup
-	 * @returns {Promise<OAuthSignInResult>} Promise resolving to OAuth sign-in result
+	 * Initiates phone number sign-in process
+	 * @param {string} phoneNumber Phone number in international format
+	 * @param {string | HTMLElement} recaptchaContainer reCAPTCHA container element or its ID;
+	 * the button starting the sign-in for invisible reCAPTCHA
+	 * @param {PhoneSignInOptions} [options] reCAPTCHA and resend options
+	 * @returns {Promise<PhoneVerificationResult>} Promise resolving to verification result
+	 * @throws {FirekitAuthError} If verification initiation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const verification = await firekitAuth.signInWithPhoneNumber("+1234567890", "sign-in-button", {
+	 *   recaptcha: { size: 'invisible' }
+	 * });
+	 * const user = await verification.confirm("123456");
+	 *
+	 * // Later, once verification.getResendCooldown() reaches 0
+	 * await verification.resend();
+	 * ```
+	 */
+	async signInWithPhoneNumber(
+		phoneNumber: string,
+		recaptchaContainer: string | HTMLElement,
+		options: PhoneSignInOptions = {}
+	): Promise<PhoneVerificationResult> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		try {
+			this.authState.loading = true;
+			this.notifyStateListeners();
+
+			return await this.startPhoneVerification(
+				recaptchaContainer,
+				options,
+				(verifier) => firebaseSignInWithPhoneNumber(this.auth!, phoneNumber, verifier),
+				async (userCredential): Promise<SignInResult> => {
+					await this.updateUserInFirestore(userCredential.user);
+
+					const userProfile = this.mapFirebaseUserToProfile(userCredential.user);
+					const additionalUserInfo = getAdditionalUserInfo(userCredential);
+					const isNewUser = additionalUserInfo?.isNewUser ?? false;
+					this.emitSignIn(userProfile, 'phone', isNewUser);
+
+					return {
+						success: true,
+						user: userProfile,
+						method: 'phone',
+						timestamp: new Date(),
+						isNewUser
+					};
+				},
+				async (error) => this.handleAuthError(error)
+			);
+		} catch (error: any) {
+			this.handleAuthError(error);
+		} finally {
+			this.authState.loading = false;
+			this.notifyStateListeners();
+		}
+	}
+
+	/**
+	 * Removes the reCAPTCHA verifier of a container, e.g. when a phone sign-in form is destroyed
+	 * @param {string | HTMLElement} recaptchaContainer reCAPTCHA container element or its ID
+	 */
+	clearRecaptchaVerifier(recaptchaContainer: string | HTMLElement): void {
+		this.recaptchaVerifiers.get(recaptchaContainer)?.clear();
+		this.recaptchaVerifiers.delete(recaptchaContainer);
+	}
+
+	// ========================================
+	// EMAIL LINK METHODS
+	// ========================================
+
+	/**
+	 * Sends a passwordless sign-in link. The email is stored locally so the link
+	 * can be completed without asking for it again on this device.
+	 * @param {string} email User's email address
+	 * @param {ActionCodeSettings} actionCodeSettings Where the link leads; `url` must be an authorized domain
+	 * @returns {Promise<void>} Promise that resolves when the link is sent
+	 * @throws {FirekitAuthError} If sending fails
+	 *
+	 * @example
+	 * ```typescript
+	 * await firekitAuth.sendSignInLink("user@example.com", {
+	 *   url: `${location.origin}/finish-sign-in`
+	 * });
+	 * ```
+	 */
+	async sendSignInLink(email: string, actionCodeSettings: ActionCodeSettings): Promise<void> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		try {
+			await sendSignInLinkToEmail(this.auth, email, {
+				...actionCodeSettings,
+				handleCodeInApp: true
+			});
+			this.storeEmailForSignIn(email);
+		} catch (error: any) {
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Checks whether a URL is an email sign-in link
+	 * @param {string} [url] URL to check (default: the current URL)
+	 * @returns {boolean} True if the URL is an email sign-in link
+	 */
+	isSignInLink(url?: string): boolean {
+		const link = url ?? (typeof window !== 'undefined' ? window.location.href : '');
+		return !!this.auth && !!link && isSignInWithEmailLink(this.auth, link);
+	}
+
+	/**
+	 * Completes sign-in if the current URL is an email sign-in link.
+	 * Call it on the page the link leads to.
+	 * @param {EmailLinkOptions} [options] Email prompt and linking options
+	 * @returns {Promise<SignInResult | MultiFactorChallenge | null>} Promise resolving to the
+	 * sign-in result, or null if the current URL is not a sign-in link
 	 * @throws {FirekitAuthError} If sign-in fails
+	 *
+	 * @example
+	 * ```typescript
+	 * // src/routes/finish-sign-in/+page.svelte
+	 * onMount(async () => {
+	 *   const result = await firekitAuth.completeEmailLinkSignInIfPresent({
+	 *     promptForEmail: () => prompt("Confirm your email")
+	 *   });
+	 *   if (result) goto('/');
+	 * });
+	 * ```
+	 */
+	async completeEmailLinkSignInIfPresent(
+		options: EmailLinkOptions = {}
+	): Promise<SignInResult | MultiFactorChallenge | null> {
+		if (!this.isSignInLink()) return null;
+		return this.completeSignInWithEmailLink(options);
+	}
+
+	/**
+	 * Completes an email link sign-in. The email is recovered from local storage,
+	 * or asked for with `promptForEmail` when the link is opened on another device.
+	 * Anonymous users are upgraded by linking the email to their account.
+	 * @param {EmailLinkCompletionOptions} [options] Link, email and linking options
+	 * @returns {Promise<SignInResult | MultiFactorChallenge>} Promise resolving to sign-in result,
+	 * or to a challenge if the user has enrolled a second factor
+	 * @throws {FirekitAuthError} If the link is invalid, the email is missing or sign-in fails
 	 */
-	async signInWithFacebook(): Promise<OAuthSignInResult> {
+	async completeSignInWithEmailLink(
+		options: EmailLinkCompletionOptions = {}
+	): Promise<SignInResult | MultiFactorChallenge> {
 		if (!this.auth) {
 			throw new Error('Auth instance not available');
 		}
 
+		const url = options.url ?? (typeof window !== 'undefined' ? window.location.href : '');
+		if (!this.isSignInLink(url)) {
+			throw new FirekitAuthError(AuthErrorCode.INVALID_ACTION_CODE, 'Invalid sign-in link.');
+		}
+
 		try {
 			this.authState.loading = true;
 			this.notifyStateListeners();
 
-			const provider = createFacebookProvider();
+			await this.auth.authStateReady();
 
-			const result = await signInWithPopup(this.auth, provider);
-			await this.updateUserInFirestore(result.user);
+			const email =
+				options.email ?? this.getEmailForSignIn() ?? (await options.promptForEmail?.()) ?? null;
+			if (!email) {
+				throw new FirekitAuthError(
+					AuthErrorCode.MISSING_EMAIL,
+					'Email address is required to complete sign-in.'
+				);
+			}
 
-			const userProfile = this.mapFirebaseUserToProfile(result.user);
-			const additionalUserInfo = getAdditionalUserInfo(result);
-			const isNewUser = additionalUserInfo?.isNewUser ?? false;
+			const currentUser = this.auth.currentUser;
+			const linkToCurrentUser = options.linkToCurrentUser ?? currentUser?.isAnonymous ?? false;
 
-			return {
-				success: true,
-				user: userProfile,
-				method: 'facebook',
-				timestamp: new Date(),
-				isNewUser,
-				provider: 'facebook'
-			};
+			if (currentUser && linkToCurrentUser) {
+				const credential = EmailAuthProvider.credentialWithLink(email, url);
+				const userCredential = await firebaseLinkWithCredential(currentUser, credential);
+				this.clearEmailForSignIn();
+
+				// Linking keeps the signed-in user, so onAuthStateChanged does not fire
+				const result = await this.completeEmailSignIn(userCredential, 'emailLink');
+				this.authState.user = result.user;
+				return result;
+			}
+
+			const userCredential = await signInWithEmailLink(this.auth, email, url);
+			this.clearEmailForSignIn();
+			return await this.completeEmailSignIn(userCredential, 'emailLink');
+		} catch (error: any) {
+			if (error?.code === AuthErrorCode.MULTI_FACTOR_AUTH_REQUIRED) {
+				this.clearEmailForSignIn();
+				return this.createMultiFactorChallenge(error, 'emailLink', (userCredential) =>
+					this.completeEmailSignIn(userCredential, 'emailLink')
+				);
+			}
+			return await this.handleCredentialError(error);
+		} finally {
+			this.authState.loading = false;
+			this.notifyStateListeners();
+		}
+	}
+
+	/**
+	 * Stores the email a sign-in link was sent to
+	 * @private
+	 */
+	private storeEmailForSignIn(email: string): void {
+		try {
+			localStorage.setItem(`${EMAIL_FOR_SIGN_IN_KEY}:${this.appName}`, email);
+		} catch {
+			// Storage unavailable; the email is asked for on completion
+		}
+	}
+
+	/**
+	 * Gets the email a sign-in link was sent to from this device
+	 * @private
+	 */
+	private getEmailForSignIn(): string | null {
+		try {
+			return localStorage.getItem(`${EMAIL_FOR_SIGN_IN_KEY}:${this.appName}`);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Removes the stored sign-in link email
+	 * @private
+	 */
+	private clearEmailForSignIn(): void {
+		try {
+			localStorage.removeItem(`${EMAIL_FOR_SIGN_IN_KEY}:${this.appName}`);
+		} catch {
+			// Storage unavailable
+		}
+	}
+
+	// ========================================
+	// ACCOUNT LINKING METHODS
+	// ========================================
+
+	/**
+	 * Links an email and password to the current user.
+	 * Upgrades anonymous users to permanent accounts, keeping their uid and Firestore data.
+	 * @param {string} email Email address
+	 * @param {string} password Password
+	 * @returns {Promise<AccountLinkResult>} Promise resolving to link result
+	 * @throws {AccountLinkConflictError} If the email belongs to another account
+	 * @throws {FirekitAuthError} If linking fails
+	 *
+	 * @example
+	 * ```typescript
+	 * await firekitAuth.signInAnonymously();
+	 * // ...later
+	 * const result = await firekitAuth.linkWithEmail("user@example.com", "password123");
+	 * console.log("Upgraded:", result.upgradedFromAnonymous);
+	 * ```
+	 */
+	async linkWithEmail(email: string, password: string): Promise<AccountLinkResult> {
+		return this.linkWithCredential(EmailAuthProvider.credential(email, password));
+	}
+
+	/**
+	 * Links a credential to the current user, e.g. the pending credential of an
+	 * AccountLinkConflictError after signing in to the existing account
+	 * @param {AuthCredential} credential Credential to link
+	 * @returns {Promise<AccountLinkResult>} Promise resolving to link result
+	 * @throws {AccountLinkConflictError} If the credential belongs to another account
+	 * @throws {FirekitAuthError} If linking fails
+	 *
+	 * @example
+	 * ```typescript
+	 * try {
+	 *   await firekitAuth.signInWithProvider('github');
+	 * } catch (error) {
+	 *   if (error instanceof AccountLinkConflictError && error.pendingCredential) {
+	 *     // error.signInMethods, e.g. ['google.com']
+	 *     await firekitAuth.signInWithGoogle();
+	 *     await firekitAuth.linkWithCredential(error.pendingCredential);
+	 *   }
+	 * }
+	 * ```
+	 */
+	async linkWithCredential(credential: AuthCredential): Promise<AccountLinkResult> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
+		}
+
+		const wasAnonymous = this.auth.currentUser.isAnonymous;
+
+		try {
+			const result = await firebaseLinkWithCredential(this.auth.currentUser, credential);
+			return await this.completeLink(result, credential.providerId, wasAnonymous);
+		} catch (error: any) {
+			return await this.handleCredentialError(error, credential);
+		}
+	}
+
+	/**
+	 * Links an OAuth, OIDC or SAML provider to the current user.
+	 * With `mode: 'redirect'` the link completes on return and its `AccountLinkResult` is available
+	 * from `getRedirectResult()`.
+	 * @param {OAuthProviderType} providerId Provider id
+	 * @param {OAuthSignInOptions} [options] Scopes, custom parameters and sign-in mode
+	 * @returns {Promise<AccountLinkResult>} Promise resolving to link result
+	 * @throws {AccountLinkConflictError} If the provider account belongs to another user
+	 * @throws {FirekitAuthError} If linking fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const result = await firekitAuth.linkWithProvider('google');
+	 * console.log("Linked:", result.providerId);
+	 * ```
+	 */
+	async linkWithProvider(
+		providerId: OAuthProviderType,
+		options: OAuthSignInOptions = {}
+	): Promise<AccountLinkResult> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
+		}
+
+		const user = this.auth.currentUser;
+		const wasAnonymous = user.isAnonymous;
+
+		try {
+			const provider = createAuthProvider(providerId, options);
+			const mode = options.mode ?? 'popup';
+
+			if (mode === 'redirect' || (mode === 'auto' && prefersRedirectSignIn())) {
+				return await this.redirectToProvider(provider, user);
+			}
+
+			let result: UserCredential;
+			try {
+				result = await linkWithPopup(user, provider);
+			} catch (popupError: any) {
+				if (!REDIRECT_FALLBACK_CODES.includes(popupError?.code)) throw popupError;
+				console.warn(`Popup linking unavailable (${popupError.code}), falling back to redirect`);
+				return await this.redirectToProvider(provider, user);
+			}
+
+			return await this.completeLink(result, toFirebaseProviderId(providerId), wasAnonymous);
+		} catch (error: any) {
+			return await this.handleCredentialError(error);
+		}
+	}
+
+	/**
+	 * Links a phone number to the current user
+	 * @param {string} phoneNumber Phone number in international format
+	 * @param {string | HTMLElement} recaptchaContainer reCAPTCHA container element or its ID
+	 * @param {PhoneSignInOptions} [options] reCAPTCHA and resend options
+	 * @returns {Promise<PhoneVerificationResult<AccountLinkResult>>} Promise resolving to verification result
+	 * @throws {FirekitAuthError} If verification initiation fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const verification = await firekitAuth.linkWithPhone("+1234567890", "recaptcha-container");
+	 * const result = await verification.confirm("123456");
+	 * ```
+	 */
+	async linkWithPhone(
+		phoneNumber: string,
+		recaptchaContainer: string | HTMLElement,
+		options: PhoneSignInOptions = {}
+	): Promise<PhoneVerificationResult<AccountLinkResult>> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
+		}
+
+		const user = this.auth.currentUser;
+		const wasAnonymous = user.isAnonymous;
+
+		try {
+			return await this.startPhoneVerification(
+				recaptchaContainer,
+				options,
+				(verifier) => linkWithPhoneNumber(user, phoneNumber, verifier),
+				(result) => this.completeLink(result, 'phone', wasAnonymous),
+				(error) => this.handleCredentialError(error)
+			);
 		} catch (error: any) {
-			this.handleAuthError(error);
-		} finally {
-			this.authState.loading = false;
-			this.notifyStateListeners();
+			return await this.handleCredentialError(error);
 		}
 	}
 
 	/**
-	 * Signs in user with Apple popup
-	 * @returns {Promise<OAuthSignInResult>} Promise resolving to OAuth sign-in result
-	 * @throws {FirekitAuthError} If sign-in fails
+	 * Unlinks a provider from the current user
+	 * @param {string} providerId Provider type ('google') or Firebase provider id ('password', 'phone', 'google.com')
+	 * @returns {Promise<UserProfile>} Promise resolving to the updated user profile
+	 * @throws {FirekitAuthError} If unlinking fails
+	 *
+	 * @example
+	 * ```typescript
+	 * await firekitAuth.unlinkProvider('github');
+	 * ```
 	 */
-	async signInWithApple(): Promise<OAuthSignInResult> {
-		if (!this.auth) {
-			throw new Error('Auth instance not available');
+	async unlinkProvider(providerId: string): Promise<UserProfile> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
 		}
 
 		try {
-			this.authState.loading = true;
-			this.notifyStateListeners();
-
-			const provider = createAppleProvider();
-
-			const result = await signInWithPopup(this.auth, provider);
-			await this.updateUserInFirestore(result.user);
-
-			const userProfile = this.mapFirebaseUserToProfile(result.user);
-			const additionalUserInfo = getAdditionalUserInfo(result);
-			const isNewUser = additionalUserInfo?.isNewUser ?? false;
+			const user = await unlink(this.auth.currentUser, toFirebaseProviderId(providerId));
+			await this.updateUserInFirestore(user);
 
-			return {
-				success: true,
-				user: userProfile,
-				method: 'apple',
-				timestamp: new Date(),
-				isNewUser,
-				provider: 'apple'
-			};
+			const userProfile = this.mapFirebaseUserToProfile(user);
+			this.authState.user = userProfile;
+			this.notifyStateListeners();
+			this.emit('accountUnlink', { user: userProfile, method: this.toAuthMethod(providerId) });
+			return userProfile;
 		} catch (error: any) {
 			this.handleAuthError(error);
-		} finally {
-			this.authState.loading = false;
-			this.notifyStateListeners();
 		}
 	}
 
+	// ========================================
+	// MULTI-FACTOR METHODS
+	// ========================================
+
 	/**
-	 * Signs in user anonymously
-	 * @returns {Promise<SignInResult>} Promise resolving to sign-in result
-	 * @throws {FirekitAuthError} If sign-in fails
+	 * Starts enrolling an authenticator app (TOTP) as second factor.
+	 * Show `qrCodeUri` as a QR code (or `secretKey` for manual entry), then confirm
+	 * with a code from the app. Requires a verified email.
+	 * @param {Object} [options] QR code options
+	 * @param {string} [options.accountName] Account shown in the app, defaults to the user's email
+	 * @param {string} [options.issuer] Issuer shown in the app, defaults to the Firebase app name
+	 * @returns {Promise<TotpEnrollment>} Promise resolving to the pending enrollment
+	 * @throws {FirekitAuthError} If enrollment cannot be started
 	 *
 	 * @example
 	 * ```typescript
-	 * const result = await firekitAuth.signInAnonymously();
-	 * console.log("Anonymous user:", result.user.uid);
-	 * console.log("Is new user:", result.isNewUser);
+	 * const enrollment = await firekitAuth.enrollTotp({ issuer: "My App" });
+	 * showQrCode(enrollment.qrCodeUri);
+	 * await enrollment.confirm("123456", "Authenticator");
 	 * ```
 	 */
-	async signInAnonymously(): Promise<SignInResult> {
-		if (!this.auth) {
-			throw new Error('Auth instance not available');
+	async enrollTotp(
+		options: { accountName?: string; issuer?: string } = {}
+	): Promise<TotpEnrollment> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
 		}
 
-		try {
-			this.authState.loading = true;
-			this.notifyStateListeners();
-
-			const result = await firebaseSignInAnonymously(this.auth);
-			await this.updateUserInFirestore(result.user);
+		const user = this.auth.currentUser;
 
-			const userProfile = this.mapFirebaseUserToProfile(result.user);
-			const additionalUserInfo = getAdditionalUserInfo(result);
-			const isNewUser = additionalUserInfo?.isNewUser ?? false;
+		try {
+			const session = await multiFactor(user).getSession();
+			const secret = await TotpMultiFactorGenerator.generateSecret(session);
 
 			return {
-				success: true,
-				user: userProfile,
-				method: 'anonymous',
-				timestamp: new Date(),
-				isNewUser
+				factorId: 'totp',
+				secretKey: secret.secretKey,
+				qrCodeUri: secret.generateQrCodeUrl(options.accountName, options.issuer),
+				codeLength: secret.codeLength,
+				codeIntervalSeconds: secret.codeIntervalSeconds,
+				enrollmentDeadline: secret.enrollmentCompletionDeadline,
+				confirm: (code, displayName) =>
+					this.completeEnrollment(
+						user,
+						TotpMultiFactorGenerator.assertionForEnrollment(secret, code),
+						displayName
+					)
 			};
 		} catch (error: any) {
 			this.handleAuthError(error);
-		} finally {
-			this.authState.loading = false;
-			this.notifyStateListeners();
 		}
 	}
 
 	/**
-	 * Initiates phone number sign-in process
+	 * Starts enrolling a phone number as SMS second factor. Requires a verified email.
 	 * @param {string} phoneNumber Phone number in international format
 	 * @param {string} recaptchaContainerId ID of the reCAPTCHA container element
-	 * @returns {Promise<PhoneVerificationResult>} Promise resolving to verification result
-	 * @throws {FirekitAuthError} If verification initiation fails
+	 * @returns {Promise<PhoneFactorEnrollment>} Promise resolving to the pending enrollment
+	 * @throws {FirekitAuthError} If the code cannot be sent
 	 *
 	 * @example
 	 * ```typescript
-	 * const verification = await firekitAuth.signInWithPhoneNumber("+1234567890", "recaptcha-container");
-	 * const user = await verification.confirm("123456");
+	 * const enrollment = await firekitAuth.enrollPhoneFactor("+1234567890", "recaptcha-container");
+	 * await enrollment.confirm("123456", "Work phone");
 	 * ```
 	 */
-	async signInWithPhoneNumber(
+	async enrollPhoneFactor(
 		phoneNumber: string,
 		recaptchaContainerId: string
-	): Promise<PhoneVerificationResult> {
-		if (!this.auth) {
-			throw new Error('Auth instance not available');
+	): Promise<PhoneFactorEnrollment> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
 		}
 
-		try {
-			this.authState.loading = true;
-			this.notifyStateListeners();
-
-			// Clean up existing verifier if any
-			const existingVerifier = this.recaptchaVerifiers.get(recaptchaContainerId);
-			if (existingVerifier) {
-				existingVerifier.clear();
-				this.recaptchaVerifiers.delete(recaptchaContainerId);
-			}
-
-			const recaptchaVerifier = new RecaptchaVerifier(this.auth, recaptchaContainerId, {
-				size: 'normal',
-				callback: () => {
-					console.log('reCAPTCHA solved');
-				},
-				'expired-callback': () => {
-					console.log('reCAPTCHA expired');
-				}
-			});
-
-			this.recaptchaVerifiers.set(recaptchaContainerId, recaptchaVerifier);
+		const user = this.auth.currentUser;
 
-			const confirmationResult = await firebaseSignInWithPhoneNumber(
-				this.auth,
-				phoneNumber,
+		try {
+			const session = await multiFactor(user).getSession();
+			const recaptchaVerifier = this.createRecaptchaVerifier(recaptchaContainerId);
+			const verificationId = await new PhoneAuthProvider(this.auth).verifyPhoneNumber(
+				{ phoneNumber, session },
 				recaptchaVerifier
 			);
 
 			return {
-				verificationId: confirmationResult.verificationId,
-				confirm: async (verificationCode: string): Promise<SignInResult> => {
+				factorId: 'phone',
+				verificationId,
+				confirm: async (code, displayName) => {
 					try {
-						const userCredential = await confirmationResult.confirm(verificationCode);
-						await this.updateUserInFirestore(userCredential.user);
-
-						const userProfile = this.mapFirebaseUserToProfile(userCredential.user);
-						const additionalUserInfo = getAdditionalUserInfo(userCredential);
-						const isNewUser = additionalUserInfo?.isNewUser ?? false;
-
-						return {
-							success: true,
-							user: userProfile,
-							method: 'phone',
-							timestamp: new Date(),
-							isNewUser
-						};
-					} catch (error: any) {
-						this.handleAuthError(error);
+						return await this.completeEnrollment(
+							user,
+							PhoneMultiFactorGenerator.assertion(
+								PhoneAuthProvider.credential(verificationId, code)
+							),
+							displayName
+						);
 					} finally {
-						// Clean up verifier after use
 						recaptchaVerifier.clear();
 						this.recaptchaVerifiers.delete(recaptchaContainerId);
 					}
 				}
 			};
+		} catch (error: any) {
+			this.clearRecaptchaVerifier(recaptchaContainerId);
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Gets the second factors enrolled by the current user
+	 * @returns {EnrolledFactor[]} Enrolled factors, empty if signed out
+	 */
+	getEnrolledFactors(): EnrolledFactor[] {
+		const user = this.auth?.currentUser;
+		if (!user) return [];
+		return multiFactor(user).enrolledFactors.map((info) => this.mapMultiFactorInfo(info));
+	}
+
+	/**
+	 * Removes an enrolled second factor. Firebase may sign the user out afterwards,
+	 * requiring a new sign-in.
+	 * @param {string} factorUid Uid of the enrolled factor
+	 * @returns {Promise<EnrolledFactor[]>} Promise resolving to the remaining factors
+	 * @throws {FirekitAuthError} If unenrolling fails
+	 */
+	async unenrollFactor(factorUid: string): Promise<EnrolledFactor[]> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
+		}
+
+		try {
+			await multiFactor(this.auth.currentUser).unenroll(factorUid);
+			this.emit('multiFactorUnenroll');
+			return this.getEnrolledFactors();
+		} catch (error: any) {
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Enrolls a verified second factor
+	 * @private
+	 */
+	private async completeEnrollment(
+		user: User,
+		assertion: MultiFactorAssertion,
+		displayName?: string
+	): Promise<EnrolledFactor[]> {
+		try {
+			await multiFactor(user).enroll(assertion, displayName);
+			this.emit('multiFactorEnroll');
+			return this.getEnrolledFactors();
 		} catch (error: any) {
 			this.handleAuthError(error);
-		} finally {
-			this.authState.loading = false;
-			this.notifyStateListeners();
 		}
 	}
 
@@ -593,7 +2155,7 @@ class FirekitAuth {
 	 * @param {string} email User's email address
 	 * @param {string} password User's password
 	 * @param {string} [displayName] User's display name
-	 * @param {boolean} [sendVerification=true] Whether to send email verification
+	 * @param {boolean} [sendVerification] Whether to send email verification (default: `requireEmailVerification` config, else true)
 	 * @returns {Promise<RegistrationResult>} Promise resolving to registration result
 	 * @throws {FirekitAuthError} If registration fails
 	 *
@@ -612,7 +2174,7 @@ class FirekitAuth {
 		email: string,
 		password: string,
 		displayName?: string,
-		sendVerification: boolean = true
+		sendVerification: boolean = this.config.requireEmailVerification ?? true
 	): Promise<RegistrationResult> {
 		if (!this.auth) {
 			throw new Error('Auth instance not available');
@@ -638,6 +2200,7 @@ class FirekitAuth {
 			await this.updateUserInFirestore(user);
 
 			const userProfile = this.mapFirebaseUserToProfile(user);
+			this.emit('signUp', { user: userProfile, method: 'email' });
 
 			return {
 				success: true,
@@ -678,6 +2241,7 @@ class FirekitAuth {
 
 		try {
 			await sendPasswordResetEmail(this.auth, email);
+			this.emit('passwordReset', { method: 'email' });
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -687,25 +2251,157 @@ class FirekitAuth {
 	 * Confirms password reset with code
 	 * @param {string} code Password reset code from email
 	 * @param {string} newPassword New password
+	 * @param {string | null} [tenantId] Tenant of the user, from the `tenantId` of the reset link
 	 * @returns {Promise<void>} Promise that resolves when password is reset
 	 * @throws {FirekitAuthError} If reset fails
 	 */
-	async confirmPasswordReset(code: string, newPassword: string): Promise<void> {
+	async confirmPasswordReset(
+		code: string,
+		newPassword: string,
+		tenantId: string | null = null
+	): Promise<void> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		const auth = this.auth;
+		try {
+			await this.withActionTenant(tenantId, () => confirmPasswordReset(auth, code, newPassword));
+			this.emit('passwordReset', { method: 'email' });
+		} catch (error: any) {
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Handles an email action link on a custom action handler page: verifies the email,
+	 * restores a changed email or applies an email change right away, and checks password
+	 * reset codes so the new password can be confirmed with `confirmPasswordReset`.
+	 * Signed-in users are reloaded, here and in their other tabs.
+	 * @param {string} [url] Action link (default: the current URL)
+	 * @returns {Promise<AuthActionResult>} Promise resolving to the handled action
+	 * @throws {FirekitAuthError} If the link is invalid, expired or already used
+	 *
+	 * @example
+	 * ```typescript
+	 * // src/routes/auth/action/+page.svelte
+	 * const result = await firekitAuth.handleActionCode();
+	 * if (result.mode === 'resetPassword') {
+	 *   await firekitAuth.confirmPasswordReset(result.code, newPassword, result.tenantId);
+	 * }
+	 * ```
+	 */
+	async handleActionCode(url?: string): Promise<AuthActionResult> {
 		if (!this.auth) {
 			throw new Error('Auth instance not available');
 		}
 
+		const link = url ?? (typeof window !== 'undefined' ? window.location.href : '');
+		let params: URLSearchParams;
+		try {
+			params = new URL(link).searchParams;
+		} catch {
+			params = new URLSearchParams();
+		}
+
+		const mode = params.get('mode') as AuthActionMode | null;
+		const code = params.get('oobCode');
+		if (!mode || !ACTION_MODES.includes(mode) || !code) {
+			throw new FirekitAuthError(AuthErrorCode.INVALID_ACTION_CODE, 'Invalid action link.');
+		}
+
+		const auth = this.auth;
+		const result: AuthActionResult = {
+			mode,
+			email: null,
+			previousEmail: null,
+			code,
+			tenantId: params.get('tenantId'),
+			applied: false,
+			continueUrl: this.toContinueUrl(params.get('continueUrl'))
+		};
+
 		try {
-			await confirmPasswordReset(this.auth, code, newPassword);
+			if (mode === 'resetPassword') {
+				result.email = await this.withActionTenant(result.tenantId, () =>
+					verifyPasswordResetCode(auth, code)
+				);
+				return result;
+			}
+
+			const { data } = await this.withActionTenant(result.tenantId, async () => {
+				const info = await checkActionCode(auth, code);
+				await applyActionCode(auth, code);
+				return info;
+			});
+			result.email = data.email ?? null;
+			result.previousEmail = data.previousEmail ?? null;
+			result.applied = true;
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
+
+		await this.reloadAfterAction();
+		return result;
+	}
+
+	/**
+	 * Runs action code calls against the tenant of an action link, as codes of tenant users
+	 * are only valid for their tenant. The tenant set with `setTenant` is restored afterwards,
+	 * so a crafted link cannot switch the tenant of later sign-ins.
+	 * @private
+	 */
+	private async withActionTenant<T>(tenantId: string | null, action: () => Promise<T>): Promise<T> {
+		if (!this.auth || !tenantId) return action();
+
+		const previousTenantId = this.auth.tenantId;
+		this.auth.tenantId = tenantId;
+		try {
+			return await action();
+		} finally {
+			this.auth.tenantId = previousTenantId;
+		}
+	}
+
+	/**
+	 * Accepts continue URLs of action links only if they are web URLs,
+	 * as anyone can craft an action link with a valid code of their own
+	 * @private
+	 */
+	private toContinueUrl(value: string | null): string | null {
+		if (!value) return null;
+
+		try {
+			const continueUrl = new URL(value);
+			return ['http:', 'https:'].includes(continueUrl.protocol) ? continueUrl.href : null;
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Reloads the signed-in user after an action changed its email or verification status
+	 * @private
+	 */
+	private async reloadAfterAction(): Promise<void> {
+		const user = this.auth?.currentUser;
+		if (!user) return;
+
+		try {
+			await reload(user);
+			this.refreshUserState();
+			this.broadcast('profileUpdate', user.uid);
+		} catch (error) {
+			// Email changes revoke the user's tokens, signing them out on their next request
+			console.warn('Failed to reload user after email action:', error);
+		}
 	}
 
 	/**
 	 * Updates user password with reauthentication
 	 * @param {string} newPassword New password
-	 * @param {string} currentPassword Current password for reauthentication
+	 * @param {string | ReauthenticationCallback} [reauth] Current password to reauthenticate with
+	 * up front, or a callback invoked on `auth/requires-recent-login` before retrying
 	 * @returns {Promise<PasswordUpdateResult>} Promise resolving to update result
 	 *
 	 * @example
@@ -716,11 +2412,14 @@ class FirekitAuth {
 	 * } else {
 	 *   console.error("Update failed:", result.message);
 	 * }
+	 *
+	 * // Users signed in with Google
+	 * await firekitAuth.updatePassword("newPassword123", () => ({ provider: 'google' }));
 	 * ```
 	 */
 	async updatePassword(
 		newPassword: string,
-		currentPassword: string
+		reauth?: string | ReauthenticationCallback
 	): Promise<PasswordUpdateResult> {
 		if (!this.auth?.currentUser) {
 			return {
@@ -731,15 +2430,26 @@ class FirekitAuth {
 		}
 
 		try {
-			await this.reauthenticateUser(currentPassword);
-			await updatePassword(this.auth.currentUser, newPassword);
+			const user = this.auth.currentUser;
+			if (typeof reauth === 'string') {
+				await this.reauthenticate({ password: reauth });
+			}
+			await this.withRecentLogin(
+				() => updatePassword(user, newPassword),
+				typeof reauth === 'function' ? reauth : undefined
+			);
 
+			this.emit('passwordUpdate', { method: 'email' });
 			return {
 				success: true,
 				message: 'Password successfully updated.'
 			};
 		} catch (error: any) {
 			const code = error.code as AuthErrorCode;
+			// Failed reauthentications were already emitted by reauthenticate()
+			if (!(error instanceof FirekitAuthError && error.originalError)) {
+				this.emit('error', { error: new FirekitAuthError(code, error.message, error) });
+			}
 
 			if (code === AuthErrorCode.WRONG_PASSWORD) {
 				return {
@@ -785,6 +2495,9 @@ class FirekitAuth {
 		try {
 			await updateProfile(this.auth.currentUser, profile);
 			await this.updateUserInFirestore(this.auth.currentUser);
+			this.refreshUserState();
+			this.broadcast('profileUpdate', this.auth.currentUser.uid);
+			this.emit('profileUpdate');
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -793,22 +2506,30 @@ class FirekitAuth {
 	/**
 	 * Updates user email address
 	 * @param {string} newEmail New email address
+	 * @param {ReauthenticationCallback} [reauth] Invoked on `auth/requires-recent-login` before retrying
 	 * @returns {Promise<void>} Promise that resolves when email is updated
 	 * @throws {FirekitAuthError} If update fails
 	 *
 	 * @example
 	 * ```typescript
-	 * await firekitAuth.updateEmail("newemail@example.com");
+	 * await firekitAuth.updateEmail("newemail@example.com", async () => {
+	 *   const password = await askForPassword();
+	 *   return password ? { password } : null;
+	 * });
 	 * ```
 	 */
-	async updateEmail(newEmail: string): Promise<void> {
+	async updateEmail(newEmail: string, reauth?: ReauthenticationCallback): Promise<void> {
 		if (!this.auth?.currentUser) {
 			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
 		}
 
 		try {
-			await updateEmail(this.auth.currentUser, newEmail);
-			await this.updateUserInFirestore(this.auth.currentUser);
+			const user = this.auth.currentUser;
+			await this.withRecentLogin(() => updateEmail(user, newEmail), reauth);
+			await this.updateUserInFirestore(user);
+			this.refreshUserState();
+			this.broadcast('profileUpdate', user.uid);
+			this.emit('emailUpdate');
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -831,6 +2552,7 @@ class FirekitAuth {
 
 		try {
 			await sendEmailVerification(this.auth.currentUser);
+			this.emit('emailVerification');
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -854,6 +2576,7 @@ class FirekitAuth {
 		try {
 			await reload(this.auth.currentUser);
 			await this.updateUserInFirestore(this.auth.currentUser);
+			this.refreshUserState();
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -883,25 +2606,177 @@ class FirekitAuth {
 	}
 
 	/**
-	 * Reauthenticates user with current password
-	 * @private
+	 * Gets the current user's custom claims
+	 * @param {boolean} [forceRefresh=false] Whether to force token refresh, e.g. after claims changed
+	 * @returns {Promise<UserClaims>} Promise resolving to the custom claims
+	 * @throws {FirekitAuthError} If getting the token fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const claims = await firekitAuth.getClaims();
+	 * if (claims.admin) showAdminPanel();
+	 * ```
+	 */
+	async getClaims(forceRefresh: boolean = false): Promise<UserClaims> {
+		const { claims } = await this.getIdTokenResult(forceRefresh);
+		return getCustomClaims(claims);
+	}
+
+	/**
+	 * Gets the current user's decoded ID token.
+	 * Forced refreshes emit `claimsRefresh` and make the other tabs refresh their token too.
+	 * @param {boolean} [forceRefresh=false] Whether to force token refresh, e.g. after claims changed
+	 * @param {boolean} [syncTabs=true] Whether a forced refresh also refreshes the other tabs; pass false
+	 * when every tab refreshes by itself, e.g. when watching a claims refresh document
+	 * @returns {Promise<IdTokenResult>} Promise resolving to the decoded token
+	 * @throws {FirekitAuthError} If getting the token fails
+	 *
+	 * @example
+	 * ```typescript
+	 * const { claims, expirationTime } = await firekitAuth.getIdTokenResult(true);
+	 * ```
+	 */
+	async getIdTokenResult(
+		forceRefresh: boolean = false,
+		syncTabs: boolean = true
+	): Promise<IdTokenResult> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
+		}
+
+		try {
+			const user = this.auth.currentUser;
+			const result = await getIdTokenResult(user, forceRefresh);
+			if (forceRefresh) {
+				if (syncTabs) this.broadcast('claimsRefresh', user.uid);
+				this.emit('claimsRefresh');
+			}
+			return result;
+		} catch (error: any) {
+			this.handleAuthError(error);
+		}
+	}
+
+	/**
+	 * Reauthenticates the current user with a password, an OAuth provider popup or an SMS code.
+	 * Sensitive operations fail with `auth/requires-recent-login` after a while without it.
+	 * @param {ReauthenticationMethod} method Credentials to reauthenticate with
+	 * @returns {Promise<void>} Promise that resolves when the user is reauthenticated
+	 * @throws {FirekitAuthError} If reauthentication fails or is cancelled
+	 *
+	 * @example
+	 * ```typescript
+	 * await firekitAuth.reauthenticate({ password: "currentPassword123" });
+	 * await firekitAuth.reauthenticate({ provider: 'google' });
+	 * await firekitAuth.reauthenticate({
+	 *   phone: {
+	 *     recaptchaContainerId: "recaptcha-container",
+	 *     getVerificationCode: () => prompt("SMS code")
+	 *   }
+	 * });
+	 * ```
 	 */
-	private async reauthenticateUser(currentPassword: string): Promise<void> {
-		if (!this.auth?.currentUser || !this.auth.currentUser.email) {
-			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user with email found.');
+	async reauthenticate(method: ReauthenticationMethod): Promise<void> {
+		if (!this.auth?.currentUser) {
+			throw new FirekitAuthError('auth/no-current-user', 'No authenticated user found.');
 		}
 
+		const user = this.auth.currentUser;
+
 		try {
-			const credential = EmailAuthProvider.credential(this.auth.currentUser.email, currentPassword);
-			await reauthenticateWithCredential(this.auth.currentUser, credential);
+			if ('password' in method) {
+				if (!user.email) {
+					throw new FirekitAuthError(
+						AuthErrorCode.MISSING_EMAIL,
+						'No authenticated user with email found.'
+					);
+				}
+				const credential = EmailAuthProvider.credential(user.email, method.password);
+				await reauthenticateWithCredential(user, credential);
+			} else if ('provider' in method) {
+				const provider = createAuthProvider(method.provider, {
+					customParameters: method.customParameters
+				});
+				await reauthenticateWithPopup(user, provider);
+			} else {
+				await this.reauthenticateWithPhone(user, method.phone);
+			}
+			this.emit('reauthentication', { method: this.reauthenticationMethod(method) });
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
 	}
 
+	/**
+	 * Maps reauthentication credentials to their auth method
+	 * @private
+	 */
+	private reauthenticationMethod(method: ReauthenticationMethod): AuthMethodType {
+		if ('password' in method) return 'email';
+		if ('provider' in method) return method.provider;
+		return 'phone';
+	}
+
+	/**
+	 * Reauthenticates with an SMS code
+	 * @private
+	 */
+	private async reauthenticateWithPhone(user: User, options: PhoneReauthentication): Promise<void> {
+		const phoneNumber = options.phoneNumber ?? user.phoneNumber;
+		if (!phoneNumber) {
+			throw new FirekitAuthError(
+				AuthErrorCode.MISSING_PHONE_NUMBER,
+				'No phone number to reauthenticate with.'
+			);
+		}
+
+		const recaptchaVerifier = this.createRecaptchaVerifier(options.recaptchaContainerId);
+		try {
+			const confirmation = await reauthenticateWithPhoneNumber(
+				user,
+				phoneNumber,
+				recaptchaVerifier
+			);
+			const code = await options.getVerificationCode();
+			if (!code) {
+				throw new FirekitAuthError(
+					AuthErrorCode.MISSING_VERIFICATION_CODE,
+					'Reauthentication was cancelled.'
+				);
+			}
+			await confirmation.confirm(code);
+		} finally {
+			recaptchaVerifier.clear();
+			this.recaptchaVerifiers.delete(options.recaptchaContainerId);
+		}
+	}
+
+	/**
+	 * Runs an operation, reauthenticating through `reauth` and retrying once
+	 * if it fails with `auth/requires-recent-login`
+	 * @private
+	 */
+	private async withRecentLogin<T>(
+		operation: () => Promise<T>,
+		reauth?: ReauthenticationCallback
+	): Promise<T> {
+		try {
+			return await operation();
+		} catch (error: any) {
+			if (error?.code !== AuthErrorCode.REQUIRES_RECENT_LOGIN || !reauth) throw error;
+
+			const method = await reauth();
+			if (!method) throw error;
+
+			await this.reauthenticate(method);
+			return await operation();
+		}
+	}
+
 	/**
 	 * Deletes user account
-	 * @param {string} [currentPassword] Current password for reauthentication
+	 * @param {string | ReauthenticationCallback} [reauth] Current password to reauthenticate with
+	 * up front, or a callback invoked on `auth/requires-recent-login` before retrying
 	 * @returns {Promise<AccountDeletionResult>} Promise resolving to deletion result
 	 *
 	 * @example
@@ -914,7 +2789,7 @@ class FirekitAuth {
 	 * }
 	 * ```
 	 */
-	async deleteAccount(currentPassword?: string): Promise<AccountDeletionResult> {
+	async deleteAccount(reauth?: string | ReauthenticationCallback): Promise<AccountDeletionResult> {
 		if (!this.auth?.currentUser) {
 			return {
 				success: false,
@@ -926,28 +2801,55 @@ class FirekitAuth {
 			const user = this.auth.currentUser;
 
 			// Reauthenticate if password provided
-			if (currentPassword) {
-				await this.reauthenticateUser(currentPassword);
+			if (typeof reauth === 'string') {
+				await this.reauthenticate({ password: reauth });
 			}
 
-			// Delete user data from Firestore first (if available)
-			if (this.firestore) {
+			// Mark user data in Firestore as deleted first (if synced), while the user can still write it
+			const userRef =
+				this.firestore && this.config.enableFirestoreSync !== false
+					? getUserDocRef(this.firestore, user.uid, this.config, user.tenantId)
+					: null;
+			let markedDeleted = false;
+			if (userRef) {
 				try {
-					const userRef = doc(this.firestore, 'users', user.uid);
 					await setDoc(userRef, { deleted: true, deletedAt: serverTimestamp() }, { merge: true });
+					markedDeleted = true;
 				} catch (firestoreError) {
 					console.warn('Failed to update Firestore before account deletion:', firestoreError);
 				}
 			}
 
 			// Delete the user account
-			await deleteUser(user);
+			try {
+				await this.withRecentLogin(
+					() => deleteUser(user),
+					typeof reauth === 'function' ? reauth : undefined
+				);
+			} catch (error) {
+				// The account is still alive, so its data must not stay marked as deleted
+				if (userRef && markedDeleted) {
+					await setDoc(
+						userRef,
+						{ deleted: deleteField(), deletedAt: deleteField() },
+						{ merge: true }
+					).catch((firestoreError) => {
+						console.warn('Failed to restore Firestore after failed deletion:', firestoreError);
+					});
+				}
+				throw error;
+			}
 
+			this.emit('accountDeletion', { user: null });
 			return {
 				success: true,
 				message: 'Account successfully deleted.'
 			};
 		} catch (error: any) {
+			// Failed reauthentications were already emitted by reauthenticate()
+			if (!(error instanceof FirekitAuthError && error.originalError)) {
+				this.emit('error', { error: new FirekitAuthError(error.code, error.message, error) });
+			}
 			return {
 				success: false,
 				message: error.message || 'Failed to delete account.'
@@ -985,7 +2887,13 @@ class FirekitAuth {
 			this.recaptchaVerifiers.forEach((verifier) => verifier.clear());
 			this.recaptchaVerifiers.clear();
 
+			const user = this.authState.user;
 			await signOut(this.auth);
+			if (user) this.broadcast('signOut', user.uid);
+			this.emit('signOut', { user });
+
+			// Make sure the server session is cleared before navigating away
+			await this.syncSession(null);
 		} catch (error: any) {
 			this.handleAuthError(error);
 		}
@@ -1056,6 +2964,11 @@ class FirekitAuth {
 	 * @returns {Promise<void>} Promise that resolves when cleanup completes
 	 */
 	async cleanup(): Promise<void> {
+		this.idleTimer?.stop();
+		this.idleTimer = null;
+		this.syncChannel?.close();
+		this.syncChannel = null;
+
 		// Clear reCAPTCHA verifiers
 		this.recaptchaVerifiers.forEach((verifier) => verifier.clear());
 		this.recaptchaVerifiers.clear();
@@ -1066,7 +2979,7 @@ class FirekitAuth {
 }
 
 /**
- * Pre-initialized singleton instance of FirekitAuth.
+ * Singleton instance of FirekitAuth for the default app, created on first use.
  * This is the main export that should be used throughout your application.
  *
  * @example
@@ -1089,4 +3002,4 @@ class FirekitAuth {
  * unsubscribe();
  * ```
  */
-export const firekitAuth = FirekitAuth.getInstance();
+export const firekitAuth = lazySingleton(() => FirekitAuth.getInstance());
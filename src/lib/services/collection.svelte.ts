@@ -10,23 +10,23 @@ import {
 	query,
 	onSnapshot,
 	getDocs,
-	where,
-	orderBy,
-	limit,
-	startAt,
-	startAfter,
-	endAt,
-	endBefore,
 	type Query,
 	type CollectionReference,
 	type DocumentData,
 	type QueryConstraint,
 	type QuerySnapshot,
 	type DocumentSnapshot,
+	type Firestore,
 	type Unsubscribe
 } from 'firebase/firestore';
-import { firebaseService } from '../firebase.js';
+import { getFirebaseService } from '../firebase.js';
+import { resolveFirebaseContext } from '../context.js';
 import { browser } from '$app/environment';
+import { FirekitQueryBuilder } from '../utils/query.js';
+import { deserializeFirestoreValue } from '../utils/serialization.js';
+import { isAppCheckError } from '../utils/errors.js';
+import type { SerializedCollection } from '../types/server.js';
+import type { FirebaseContext } from '../types/firebase.js';
 import {
 	type CollectionState,
 	type CollectionOptions,
@@ -35,58 +35,11 @@ import {
 	type CollectionStats,
 	type CollectionQueryResult,
 	type QueryBuilder,
-	type FirestoreOperator,
 	type PaginationConfig,
 	CollectionErrorCode,
 	CollectionError
 } from '../types/collection.js';
 
-/**
- * Query builder implementation for type-safe query construction
- */
-class FirekitQueryBuilder<T> implements QueryBuilder<T> {
-	private constraints: QueryConstraint[] = [];
-
-	where(field: string, operator: FirestoreOperator, value: any): QueryBuilder<T> {
-		this.constraints.push(where(field, operator, value));
-		return this;
-	}
-
-	orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
-		this.constraints.push(orderBy(field, direction));
-		return this;
-	}
-
-	limit(count: number): QueryBuilder<T> {
-		this.constraints.push(limit(count));
-		return this;
-	}
-
-	startAt(...values: any[]): QueryBuilder<T> {
-		this.constraints.push(startAt(...values));
-		return this;
-	}
-
-	startAfter(...values: any[]): QueryBuilder<T> {
-		this.constraints.push(startAfter(...values));
-		return this;
-	}
-
-	endAt(...values: any[]): QueryBuilder<T> {
-		this.constraints.push(endAt(...values));
-		return this;
-	}
-
-	endBefore(...values: any[]): QueryBuilder<T> {
-		this.constraints.push(endBefore(...values));
-		return this;
-	}
-
-	build(): QueryConstraint[] {
-		return [...this.constraints];
-	}
-}
-
 /**
  * Comprehensive Firestore collection management with real-time updates and advanced features.
  * Uses Svelte 5 runes for optimal reactivity and performance.
@@ -120,6 +73,9 @@ class FirekitQueryBuilder<T> implements QueryBuilder<T> {
  *   transform: (doc) => ({ ...doc, displayName: doc.name.toUpperCase() })
  * });
  *
+ * // Hydrate from a +page.server.ts load using getCollectionServer
+ * const posts = firekitCollection<Post>('posts', { initial: data.posts });
+ *
  * // Access reactive state
  * $: if (users.loading) {
  *   console.log('Loading...');
@@ -143,6 +99,7 @@ class FirekitCollection<T extends DocumentData = DocumentData> {
 	protected queryRef: Query<T> | null = null;
 	private unsubscribe: Unsubscribe | null = null;
 	protected options: CollectionOptions;
+	protected context: FirebaseContext;
 	private stats: CollectionStats = this.initializeStats();
 	private cache: Map<string, { data: T[]; timestamp: Date }> = new Map();
 	private collectionPath: string;
@@ -162,18 +119,68 @@ class FirekitCollection<T extends DocumentData = DocumentData> {
 		this.collectionPath = path;
 
 		// Parse constructor arguments
+		let constraints: QueryConstraint[];
 		if (Array.isArray(constraintsOrOptions)) {
 			// Old style: path, ...constraints
 			this.options = {};
-			this.initializeCollection([...constraintsOrOptions, ...additionalConstraints]);
+			constraints = [...constraintsOrOptions, ...additionalConstraints];
 		} else {
 			// New style: path, options, ...constraints
 			this.options = constraintsOrOptions || {};
 			// Only use additionalConstraints since options object doesn't contain constraints
-			this.initializeCollection(additionalConstraints);
+			constraints = additionalConstraints;
+		}
+		this.context = this.resolveContext();
+
+		// Hydrate from a collection read on the server
+		if (this.options.initial) {
+			this.hydrate(this.options.initial);
+		}
+
+		this.initializeCollection(constraints);
+	}
+
+	/**
+	 * Restore state from a collection serialized by `getCollectionServer`
+	 */
+	private hydrate(initial: SerializedCollection): void {
+		try {
+			const firestore = browser
+				? this.getFirestore()!
+				: getFirebaseService(this.options.app).getServerDbInstance();
+
+			let documents = initial.data.map(
+				(data) => deserializeFirestoreValue(data, firestore) as unknown as T
+			);
+			if (this.options.transform) documents = documents.map(this.options.transform);
+			if (this.options.filter) documents = documents.filter(this.options.filter);
+			if (this.options.sort) documents = documents.sort(this.options.sort);
+
+			this._data = documents;
+			this._loading = false;
+			this._initialized = true;
+			this._lastUpdated = new Date();
+		} catch (error) {
+			this.handleError(error);
 		}
 	}
 
+	/**
+	 * Read instances provided by <FirebaseApp> and target its app unless another is requested
+	 */
+	protected resolveContext(): FirebaseContext {
+		const context = resolveFirebaseContext(this.options);
+		this.options = { ...this.options, app: this.options.app ?? context.app?.name };
+		return context;
+	}
+
+	/**
+	 * Get the Firestore instance, preferring the one provided by <FirebaseApp>
+	 */
+	protected getFirestore(): Firestore | null {
+		return this.context.firestore ?? getFirebaseService(this.options.app).getDbInstance();
+	}
+
 	/**
 	 * Initialize statistics object
 	 */
@@ -196,7 +203,7 @@ class FirekitCollection<T extends DocumentData = DocumentData> {
 		if (!browser) return;
 
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore = this.getFirestore();
 			if (!firestore) {
 				throw new CollectionError(
 					CollectionErrorCode.COLLECTION_UNAVAILABLE,
@@ -227,7 +234,7 @@ class FirekitCollection<T extends DocumentData = DocumentData> {
 			// Set up real-time listener or one-time fetch
 			if (this.options.realtime !== false) {
 				this.setupRealtimeListener();
-			} else {
+			} else if (!this.options.initial) {
 				await this.fetchOnce();
 			}
 		} catch (error) {
@@ -396,7 +403,9 @@ class FirekitCollection<T extends DocumentData = DocumentData> {
 			collectionError = error;
 		} else {
 			// Map Firestore errors to CollectionError
-			const code = this.mapFirestoreErrorCode(error.code);
+			const code = isAppCheckError(error, this.options.app)
+				? CollectionErrorCode.APP_CHECK_FAILED
+				: this.mapFirestoreErrorCode(error.code);
 			collectionError = new CollectionError(
 				code,
 				error.message || 'An unknown error occurred',
@@ -895,12 +904,14 @@ class FirekitCollectionGroup<T extends DocumentData = DocumentData> extends Fire
 		// Parse constructor arguments properly
 		if (Array.isArray(constraintsOrOptions)) {
 			this.options = {};
+			this.context = this.resolveContext();
 			this.initializeCollectionGroup(collectionId, [
 				...constraintsOrOptions,
 				...additionalConstraints
 			]);
 		} else {
 			this.options = constraintsOrOptions || {};
+			this.context = this.resolveContext();
 			this.initializeCollectionGroup(collectionId, additionalConstraints);
 		}
 	}
@@ -915,7 +926,7 @@ class FirekitCollectionGroup<T extends DocumentData = DocumentData> extends Fire
 		if (!browser) return;
 
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore = this.getFirestore();
 			if (!firestore) {
 				throw new CollectionError(
 					CollectionErrorCode.COLLECTION_UNAVAILABLE,
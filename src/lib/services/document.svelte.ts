@@ -11,10 +11,16 @@ import {
 	type DocumentReference,
 	type DocumentData,
 	type DocumentSnapshot,
+	type Firestore,
 	type Unsubscribe
 } from 'firebase/firestore';
-import { firebaseService } from '../firebase.js';
+import { getFirebaseService } from '../firebase.js';
+import { resolveFirebaseContext } from '../context.js';
 import { browser } from '$app/environment';
+import { deserializeFirestoreValue } from '../utils/serialization.js';
+import { isAppCheckError } from '../utils/errors.js';
+import type { SerializedDocument } from '../types/server.js';
+import type { FirebaseContext } from '../types/firebase.js';
 import {
 	type DocumentState,
 	type DocumentOptions,
@@ -44,6 +50,9 @@ import {
  *   email: ''
  * });
  *
+ * // Hydrate from a +page.server.ts load using getDocServer
+ * const post = firekitDoc<Post>(`posts/${id}`, undefined, { initial: data.post });
+ *
  * // Access reactive state in Svelte component
  * $: if (userDoc.loading) {
  *   console.log('Loading user...');
@@ -64,6 +73,9 @@ class FirekitDoc<T extends DocumentData = DocumentData> {
 	/** Configuration options */
 	private options: DocumentOptions;
 
+	/** Instances provided by <FirebaseApp> */
+	private context: FirebaseContext;
+
 	// ========================================
 	// REACTIVE STATE (Svelte 5 Runes)
 	// ========================================
@@ -118,11 +130,13 @@ class FirekitDoc<T extends DocumentData = DocumentData> {
 	 * @param options Configuration options
 	 */
 	constructor(ref: string | DocumentReference<T>, startWith?: T, options: DocumentOptions = {}) {
+		this.context = resolveFirebaseContext(options);
 		this.options = {
 			realtime: true,
 			includeMetadata: false,
 			source: 'default',
-			...options
+			...options,
+			app: options.app ?? this.context.app?.name
 		};
 
 		// Set initial data if provided
@@ -135,18 +149,50 @@ class FirekitDoc<T extends DocumentData = DocumentData> {
 			});
 		}
 
+		// Hydrate from a document read on the server
+		if (this.options.initial) {
+			this.hydrate(this.options.initial);
+		}
+
 		// Only initialize in browser environment
 		if (browser) {
 			this.initializeDocument(ref);
 		}
 	}
 
+	/**
+	 * Restore state from a document serialized by `getDocServer`
+	 */
+	private hydrate(initial: SerializedDocument): void {
+		try {
+			const firestore = browser
+				? this.getFirestore()!
+				: getFirebaseService(this.options.app).getServerDbInstance();
+
+			this.updateState({
+				data: initial.data ? (deserializeFirestoreValue(initial.data, firestore) as T) : null,
+				exists: initial.exists,
+				loading: false,
+				error: null
+			});
+		} catch (error) {
+			this.handleError(error);
+		}
+	}
+
+	/**
+	 * Get the Firestore instance, preferring the one provided by <FirebaseApp>
+	 */
+	private getFirestore(): Firestore | null {
+		return this.context.firestore ?? getFirebaseService(this.options.app).getDbInstance();
+	}
+
 	/**
 	 * Initialize document reference and subscription
 	 */
 	private async initializeDocument(ref: string | DocumentReference<T>): Promise<void> {
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore = this.getFirestore();
 			if (!firestore) {
 				throw new DocumentError(
 					DocumentErrorCode.FIRESTORE_UNAVAILABLE,
@@ -160,7 +206,7 @@ class FirekitDoc<T extends DocumentData = DocumentData> {
 			// Set up real-time listener or one-time fetch
 			if (this.options.realtime) {
 				this.setupRealtimeListener();
-			} else {
+			} else if (!this.options.initial) {
 				await this.fetchOnce();
 			}
 		} catch (error) {
@@ -243,7 +289,9 @@ class FirekitDoc<T extends DocumentData = DocumentData> {
 			documentError = error;
 		} else {
 			// Map Firestore errors to DocumentError
-			const code = this.mapFirestoreErrorCode(error.code);
+			const code = isAppCheckError(error, this.options.app)
+				? DocumentErrorCode.APP_CHECK_FAILED
+				: this.mapFirestoreErrorCode(error.code);
 			documentError = new DocumentError(code, error.message, error);
 		}
 
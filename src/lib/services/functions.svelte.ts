@@ -0,0 +1,409 @@
+/**
+ * @fileoverview FirekitCallable - Typed Cloud Functions callables for Svelte applications
+ * @module FirekitCallable
+ * @version 1.0.0
+ */
+
+import { httpsCallable, type HttpsCallable } from 'firebase/functions';
+import { getFirebaseService } from '../firebase.js';
+import { resolveFirebaseContext } from '../context.js';
+import {
+	type CallableOptions,
+	type CallOptions,
+	FunctionsErrorCode,
+	FunctionsError
+} from '../types/functions.js';
+import type { RetryConfig } from '../types/mutations.js';
+import type { FirebaseContext } from '../types/firebase.js';
+
+/**
+ * Calls an HTTPS callable Cloud Function with reactive state.
+ * Uses Svelte 5 runes for optimal reactivity and performance.
+ *
+ * @class FirekitCallable
+ * @template Req Request data type
+ * @template Res Response data type
+ * @template Chunk Streamed chunk type
+ *
+ * @example
+ * ```typescript
+ * const addMessage = firekitCallable<{ text: string }, { id: string }>('addMessage', {
+ *   timeout: 10000,
+ *   retry: { maxAttempts: 3 }
+ * });
+ *
+ * const { id } = await addMessage.call({ text: 'Hello' });
+ *
+ * // Access reactive state
+ * $: if (addMessage.loading) {
+ *   console.log('Calling...');
+ * } else if (addMessage.error) {
+ *   console.error(addMessage.error.getFriendlyMessage());
+ * }
+ * ```
+ */
+class FirekitCallable<Req = unknown, Res = unknown, Chunk = unknown> {
+	// Reactive state using Svelte 5 runes
+	private _data = $state<Res | null>(null);
+	private _loading = $state(false);
+	private _error = $state<FunctionsError | null>(null);
+	private _chunks = $state<Chunk[]>([]);
+
+	// Internal state
+	private readonly name: string;
+	private options: CallableOptions<Chunk>;
+	private context: FirebaseContext;
+	private callable: HttpsCallable<Req, Res, Chunk> | null = null;
+	private inFlight = new Map<string, Promise<Res>>();
+	private latestCallId = 0;
+	private retryConfig: RetryConfig<FunctionsError> = {
+		enabled: false,
+		maxAttempts: 3,
+		baseDelay: 1000,
+		strategy: 'exponential'
+	};
+
+	/**
+	 * Creates a callable function wrapper
+	 *
+	 * @param name Name of the callable function
+	 * @param options Configuration options
+	 */
+	constructor(name: string, options: CallableOptions<Chunk> = {}) {
+		this.name = name;
+		// Calls are made lazily, so capture the <FirebaseApp> instances now
+		this.context = resolveFirebaseContext(options);
+		this.options = { dedupe: true, ...options, app: options.app ?? this.context.app?.name };
+
+		if (options.retry) {
+			// Passing a retry config opts in to retries unless explicitly disabled
+			this.retryConfig = { ...this.retryConfig, enabled: true, ...options.retry };
+		}
+	}
+
+	/**
+	 * Get the callable reference, creating it on first use
+	 */
+	private getCallable(): HttpsCallable<Req, Res, Chunk> {
+		if (!this.callable) {
+			const functions =
+				this.context.functions ?? getFirebaseService(this.options.app).getFunctionsInstance();
+			if (!functions) {
+				throw new FunctionsError(
+					FunctionsErrorCode.FUNCTIONS_UNAVAILABLE,
+					'Functions instance not available',
+					this.name
+				);
+			}
+
+			this.callable = httpsCallable<Req, Res, Chunk>(functions, this.name, {
+				timeout: this.options.timeout,
+				limitedUseAppCheckTokens: this.options.limitedUseAppCheckTokens
+			});
+		}
+		return this.callable;
+	}
+
+	/**
+	 * Call the function with reactive state updates
+	 *
+	 * @param args Request data
+	 * @param callOptions Per-call options such as an AbortSignal
+	 * @returns Promise resolving to the function result
+	 * @throws {FunctionsError} If the call fails or is cancelled
+	 */
+	async call(args: Req, callOptions: CallOptions = {}): Promise<Res> {
+		const callId = ++this.latestCallId;
+		// Cancellable calls get their own request so aborting one never affects another
+		const key = this.options.dedupe && !callOptions.signal ? this.getDedupeKey(args) : null;
+
+		let request = key !== null ? this.inFlight.get(key) : undefined;
+		if (!request) {
+			request = this.executeWithRetry(args, callOptions.signal);
+			if (key !== null) {
+				this.inFlight.set(key, request);
+				request.then(
+					() => this.inFlight.delete(key),
+					() => this.inFlight.delete(key)
+				);
+			}
+		}
+
+		this._loading = true;
+		this._error = null;
+
+		try {
+			const result = await request;
+			if (callId === this.latestCallId) {
+				this._data = result;
+				this._loading = false;
+			}
+			return result;
+		} catch (error) {
+			const functionsError = this.handleError(error);
+			if (callId === this.latestCallId) {
+				// A cancelled call is superseded, not failed
+				if (functionsError.code !== FunctionsErrorCode.CANCELLED) {
+					this._error = functionsError;
+				}
+				this._loading = false;
+			}
+			throw functionsError;
+		}
+	}
+
+	/**
+	 * Execute the call with retry logic
+	 */
+	private async executeWithRetry(args: Req, signal?: AbortSignal): Promise<Res> {
+		const maxAttempts = this.retryConfig.enabled ? this.retryConfig.maxAttempts : 1;
+		let lastError: FunctionsError;
+		let attempt = 0;
+
+		while (attempt < maxAttempts) {
+			try {
+				return await this.execute(args, signal);
+			} catch (error) {
+				lastError = this.handleError(error);
+
+				if (
+					signal?.aborted ||
+					!lastError.isRetryable() ||
+					(this.retryConfig.shouldRetry && !this.retryConfig.shouldRetry(lastError, attempt))
+				) {
+					throw lastError;
+				}
+
+				attempt++;
+
+				if (attempt < maxAttempts) {
+					const delay =
+						this.retryConfig.strategy === 'exponential'
+							? Math.min(
+									this.retryConfig.baseDelay * Math.pow(2, attempt),
+									this.retryConfig.maxDelay || 30000
+								)
+							: this.retryConfig.baseDelay;
+
+					await this.wait(delay, signal);
+				}
+			}
+		}
+
+		if (maxAttempts > 1) {
+			throw new FunctionsError(
+				FunctionsErrorCode.RETRY_EXHAUSTED,
+				`Call failed after ${maxAttempts} attempts: ${lastError!.message}`,
+				this.name,
+				lastError!.details,
+				lastError!
+			);
+		}
+		throw lastError!;
+	}
+
+	/**
+	 * Execute a single call, streaming chunks if enabled
+	 */
+	private async execute(args: Req, signal?: AbortSignal): Promise<Res> {
+		this.throwIfAborted(signal);
+		const callable = this.getCallable();
+
+		if (this.options.stream) {
+			this._chunks = [];
+			const { stream, data } = await callable.stream(args, {
+				signal,
+				limitedUseAppCheckTokens: this.options.limitedUseAppCheckTokens
+			});
+
+			for await (const chunk of stream) {
+				this._chunks.push(chunk);
+				this.options.onChunk?.(chunk);
+			}
+			return await data;
+		}
+
+		const request = callable(args).then((result) => result.data);
+		if (!signal) return request;
+
+		// Plain callables cannot be aborted, so stop waiting for the response instead
+		return new Promise<Res>((resolve, reject) => {
+			const onAbort = () => reject(this.createCancelledError());
+			signal.addEventListener('abort', onAbort, { once: true });
+			request.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+		});
+	}
+
+	/**
+	 * Wait between retries, rejecting early if the call is cancelled
+	 */
+	private wait(delay: number, signal?: AbortSignal): Promise<void> {
+		return new Promise((resolve, reject) => {
+			const timer = setTimeout(() => {
+				signal?.removeEventListener('abort', onAbort);
+				resolve();
+			}, delay);
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(this.createCancelledError());
+			};
+			signal?.addEventListener('abort', onAbort, { once: true });
+		});
+	}
+
+	/**
+	 * Throw if the signal has already been aborted
+	 */
+	private throwIfAborted(signal?: AbortSignal): void {
+		if (signal?.aborted) {
+			throw this.createCancelledError();
+		}
+	}
+
+	/**
+	 * Create the error used for cancelled calls
+	 */
+	private createCancelledError(): FunctionsError {
+		return new FunctionsError(FunctionsErrorCode.CANCELLED, 'The call was cancelled', this.name);
+	}
+
+	/**
+	 * Generate de-duplication key for call arguments
+	 */
+	private getDedupeKey(args: Req): string | null {
+		try {
+			return JSON.stringify(args ?? null);
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Handle and format function errors
+	 */
+	private handleError(error: any): FunctionsError {
+		if (error instanceof FunctionsError) {
+			return error;
+		}
+
+		if (error?.name === 'AbortError') {
+			return this.createCancelledError();
+		}
+
+		// Map Firebase Functions errors to FunctionsError
+		const code = this.mapFunctionsErrorCode(error?.code);
+		return new FunctionsError(
+			code,
+			error?.message || 'An unknown error occurred',
+			this.name,
+			error?.details,
+			error
+		);
+	}
+
+	/**
+	 * Map Firebase Functions error codes to FunctionsErrorCode
+	 */
+	private mapFunctionsErrorCode(functionsCode: string | undefined): FunctionsErrorCode {
+		switch (functionsCode?.replace(/^functions\//, '')) {
+			case 'cancelled':
+				return FunctionsErrorCode.CANCELLED;
+			case 'invalid-argument':
+				return FunctionsErrorCode.INVALID_ARGUMENT;
+			case 'deadline-exceeded':
+				return FunctionsErrorCode.DEADLINE_EXCEEDED;
+			case 'not-found':
+				return FunctionsErrorCode.NOT_FOUND;
+			case 'already-exists':
+				return FunctionsErrorCode.ALREADY_EXISTS;
+			case 'permission-denied':
+				return FunctionsErrorCode.PERMISSION_DENIED;
+			case 'resource-exhausted':
+				return FunctionsErrorCode.RESOURCE_EXHAUSTED;
+			case 'failed-precondition':
+				return FunctionsErrorCode.FAILED_PRECONDITION;
+			case 'aborted':
+				return FunctionsErrorCode.ABORTED;
+			case 'out-of-range':
+				return FunctionsErrorCode.OUT_OF_RANGE;
+			case 'unimplemented':
+				return FunctionsErrorCode.UNIMPLEMENTED;
+			case 'internal':
+				return FunctionsErrorCode.INTERNAL_ERROR;
+			case 'unavailable':
+				return FunctionsErrorCode.UNAVAILABLE;
+			case 'data-loss':
+				return FunctionsErrorCode.DATA_LOSS;
+			case 'unauthenticated':
+				return FunctionsErrorCode.UNAUTHENTICATED;
+			default:
+				return FunctionsErrorCode.UNKNOWN;
+		}
+	}
+
+	/**
+	 * Reset state to initial values
+	 */
+	reset(): void {
+		this.latestCallId++;
+		this._data = null;
+		this._loading = false;
+		this._error = null;
+		this._chunks = [];
+	}
+
+	/** Gets the result of the last successful call */
+	get data(): Res | null {
+		return this._data;
+	}
+
+	/** Gets the loading state */
+	get loading(): boolean {
+		return this._loading;
+	}
+
+	/** Gets the error of the last call */
+	get error(): FunctionsError | null {
+		return this._error;
+	}
+
+	/** Gets the chunks received from the current streaming call */
+	get chunks(): Chunk[] {
+		return this._chunks;
+	}
+
+	/** Gets the callable function name */
+	get functionName(): string {
+		return this.name;
+	}
+}
+
+/**
+ * Creates a typed callable Cloud Function wrapper
+ *
+ * @template Req Request data type
+ * @template Res Response data type
+ * @template Chunk Streamed chunk type
+ * @param {string} name Name of the callable function
+ * @param {CallableOptions} [options] Configuration options
+ * @returns {FirekitCallable<Req, Res, Chunk>} Callable function wrapper
+ *
+ * @example
+ * ```typescript
+ * const summarize = firekitCallable<{ url: string }, string, string>('summarize', {
+ *   stream: true
+ * });
+ *
+ * const controller = new AbortController();
+ * await summarize.call({ url }, { signal: controller.signal });
+ * console.log(summarize.chunks.join(''));
+ * ```
+ */
+export function firekitCallable<Req = unknown, Res = unknown, Chunk = unknown>(
+	name: string,
+	options?: CallableOptions<Chunk>
+): FirekitCallable<Req, Res, Chunk> {
+	return new FirekitCallable<Req, Res, Chunk>(name, options);
+}
+
+export type { FirekitCallable };
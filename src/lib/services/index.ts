@@ -11,4 +11,6 @@ export { firekitDownloadUrl, firekitStorageList, firekitUploadTask } from './sto
 export { firekitPresence } from './presence.svelte.js';
 export { firekitRealtimeDB, firekitRealtimeList } from './realtime.svelte.js';
 export { firekitDocMutations } from './mutations.js';
+export { firekitCallable } from './functions.svelte.js';
 export { firekitAnalytics } from './analytics.js';
+export { firekitAppCheck } from './app-check.svelte.js';
@@ -24,9 +24,11 @@ import {
 	type PartialWithFieldValue,
 	type DocumentReference,
 	type WriteBatch,
-	type Transaction
+	type Transaction,
+	type Firestore
 } from 'firebase/firestore';
-import { firebaseService } from '../firebase.js';
+import { getFirebaseService } from '../firebase.js';
+import { isAppCheckError } from '../utils/errors.js';
 import { firekitUser } from './user.svelte.js';
 import {
 	type MutationResponse,
@@ -43,6 +45,7 @@ import {
 	MutationError
 } from '../types/mutations.js';
 import { CacheSource } from '../types/document.js';
+import type { FirekitAppOptions } from '../types/firebase.js';
 /**
  * Comprehensive Firestore document mutation service with advanced features.
  * Handles CRUD operations, batch processing, validation, error handling, and analytics.
@@ -158,14 +161,16 @@ class FirekitDocumentMutations {
 	/**
 	 * Handle and format mutation errors
 	 */
-	private handleError(error: any, operation?: string, path?: string): MutationError {
+	private handleError(error: any, operation?: string, path?: string, app?: string): MutationError {
 		let mutationError: MutationError;
 
 		if (error instanceof MutationError) {
 			mutationError = error;
 		} else {
 			// Map Firestore errors to MutationError
-			const code = this.mapFirestoreErrorCode(error.code);
+			const code = isAppCheckError(error, app)
+				? MutationErrorCode.APP_CHECK_FAILED
+				: this.mapFirestoreErrorCode(error.code);
 			mutationError = new MutationError(
 				code,
 				error.message || 'An unknown error occurred',
@@ -273,7 +278,7 @@ class FirekitDocumentMutations {
 
 				return result;
 			} catch (error: any) {
-				lastError = this.handleError(error, operationName, path);
+				lastError = this.handleError(error, operationName, path, options.app);
 
 				if (
 					!lastError.isRetryable() ||
@@ -356,7 +361,9 @@ class FirekitDocumentMutations {
 
 			const result = await this.executeWithRetry(
 				async () => {
-					const firestore = firebaseService.getDbInstance();
+					const firestore =
+						mergedOptions.context?.firestore ??
+						getFirebaseService(mergedOptions.app).getDbInstance();
 					if (!firestore) {
 						throw new MutationError(
 							MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -412,7 +419,7 @@ class FirekitDocumentMutations {
 			const mutationError =
 				error instanceof MutationError
 					? error
-					: this.handleError(error, MutationOperationType.CREATE, collectionPath);
+					: this.handleError(error, MutationOperationType.CREATE, collectionPath, options.app);
 			this.updateOperationAnalytics(MutationOperationType.CREATE, Date.now() - startTime, false);
 
 			return {
@@ -474,7 +481,9 @@ class FirekitDocumentMutations {
 
 			const result = await this.executeWithRetry(
 				async () => {
-					const firestore = firebaseService.getDbInstance();
+					const firestore =
+						mergedOptions.context?.firestore ??
+						getFirebaseService(mergedOptions.app).getDbInstance();
 					if (!firestore) {
 						throw new MutationError(
 							MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -519,7 +528,7 @@ class FirekitDocumentMutations {
 			const mutationError =
 				error instanceof MutationError
 					? error
-					: this.handleError(error, MutationOperationType.SET, path);
+					: this.handleError(error, MutationOperationType.SET, path, options.app);
 			this.updateOperationAnalytics(MutationOperationType.SET, Date.now() - startTime, false);
 
 			return {
@@ -578,7 +587,9 @@ class FirekitDocumentMutations {
 
 			const result = await this.executeWithRetry(
 				async () => {
-					const firestore = firebaseService.getDbInstance();
+					const firestore =
+						mergedOptions.context?.firestore ??
+						getFirebaseService(mergedOptions.app).getDbInstance();
 					if (!firestore) {
 						throw new MutationError(
 							MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -622,7 +633,7 @@ class FirekitDocumentMutations {
 			const mutationError =
 				error instanceof MutationError
 					? error
-					: this.handleError(error, MutationOperationType.UPDATE, path);
+					: this.handleError(error, MutationOperationType.UPDATE, path, options.app);
 			this.updateOperationAnalytics(MutationOperationType.UPDATE, Date.now() - startTime, false);
 
 			return {
@@ -661,7 +672,9 @@ class FirekitDocumentMutations {
 		try {
 			const result = await this.executeWithRetry(
 				async () => {
-					const firestore = firebaseService.getDbInstance();
+					const firestore =
+						mergedOptions.context?.firestore ??
+						getFirebaseService(mergedOptions.app).getDbInstance();
 					if (!firestore) {
 						throw new MutationError(
 							MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -699,7 +712,7 @@ class FirekitDocumentMutations {
 			const mutationError =
 				error instanceof MutationError
 					? error
-					: this.handleError(error, MutationOperationType.DELETE, path);
+					: this.handleError(error, MutationOperationType.DELETE, path, options.app);
 			this.updateOperationAnalytics(MutationOperationType.DELETE, Date.now() - startTime, false);
 
 			return {
@@ -825,7 +838,8 @@ class FirekitDocumentMutations {
 		};
 
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore =
+				batchConfig.context?.firestore ?? getFirebaseService(batchConfig.app).getDbInstance();
 			if (!firestore) {
 				throw new MutationError(
 					MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -845,14 +859,19 @@ class FirekitDocumentMutations {
 
 				for (const operation of batch) {
 					try {
-						await this.addOperationToBatch(batchWriter, operation);
+						await this.addOperationToBatch(firestore, batchWriter, operation);
 						batchResults.push({
 							operation,
 							success: true,
 							duration: 0 // Will be updated after batch commit
 						});
 					} catch (error) {
-						const mutationError = this.handleError(error, operation.type, operation.path);
+						const mutationError = this.handleError(
+							error,
+							operation.type,
+							operation.path,
+							batchConfig.app
+						);
 						batchResults.push({
 							operation,
 							success: false,
@@ -904,7 +923,9 @@ class FirekitDocumentMutations {
 			return batchResult;
 		} catch (error: any) {
 			const mutationError =
-				error instanceof MutationError ? error : this.handleError(error, 'batch');
+				error instanceof MutationError
+					? error
+					: this.handleError(error, 'batch', undefined, batchConfig.app);
 			throw mutationError;
 		}
 	}
@@ -912,10 +933,11 @@ class FirekitDocumentMutations {
 	/**
 	 * Add operation to batch writer
 	 */
-	private async addOperationToBatch(batch: WriteBatch, operation: BatchOperation): Promise<void> {
-		const firestore = firebaseService.getDbInstance();
-		if (!firestore) throw new Error('Firestore not available');
-
+	private async addOperationToBatch(
+		firestore: Firestore,
+		batch: WriteBatch,
+		operation: BatchOperation
+	): Promise<void> {
 		const options = { ...this.defaultOptions, ...operation.options };
 
 		switch (operation.type) {
@@ -1047,6 +1069,7 @@ class FirekitDocumentMutations {
 	 * Check if a document exists at specified path
 	 *
 	 * @param path Document path
+	 * @param options Target app options
 	 * @returns Promise resolving to existence check result
 	 *
 	 * @example
@@ -1057,9 +1080,10 @@ class FirekitDocumentMutations {
 	 * }
 	 * ```
 	 */
-	async exists(path: string): Promise<ExistenceCheckResult> {
+	async exists(path: string, options: FirekitAppOptions = {}): Promise<ExistenceCheckResult> {
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore =
+				options.context?.firestore ?? getFirebaseService(options.app).getDbInstance();
 			if (!firestore) {
 				throw new MutationError(
 					MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -1097,6 +1121,7 @@ class FirekitDocumentMutations {
 	 *
 	 * @template T Document data type
 	 * @param path Document path
+	 * @param options Target app options
 	 * @returns Promise resolving to mutation response with document data
 	 *
 	 * @example
@@ -1107,9 +1132,13 @@ class FirekitDocumentMutations {
 	 * }
 	 * ```
 	 */
-	async getDoc<T extends DocumentData>(path: string): Promise<MutationResponse<T>> {
+	async getDoc<T extends DocumentData>(
+		path: string,
+		options: FirekitAppOptions = {}
+	): Promise<MutationResponse<T>> {
 		try {
-			const firestore = firebaseService.getDbInstance();
+			const firestore =
+				options.context?.firestore ?? getFirebaseService(options.app).getDbInstance();
 			if (!firestore) {
 				throw new MutationError(
 					MutationErrorCode.SERVICE_UNAVAILABLE,
@@ -1145,7 +1174,7 @@ class FirekitDocumentMutations {
 				}
 			};
 		} catch (error: any) {
-			const mutationError = this.handleError(error, 'read', path);
+			const mutationError = this.handleError(error, 'read', path, options.app);
 			return {
 				success: false,
 				error: mutationError
@@ -14,7 +14,9 @@ import {
 	type DatabaseReference,
 	type DataSnapshot
 } from 'firebase/database';
-import { firebaseService } from '../firebase.js';
+import { getFirebaseService } from '../firebase.js';
+import { resolveFirebaseContext } from '../context.js';
+import type { FirebaseContext, FirekitAppOptions } from '../types/firebase.js';
 import { browser } from '$app/environment';
 
 /**
@@ -46,6 +48,10 @@ class FirekitRealtimeDB<T> {
 	private _error = $state<Error | null>(null);
 	/** Database reference */
 	private dbRef: DatabaseReference | null = null;
+	/** Target app options */
+	private options: FirekitAppOptions;
+	/** Instances provided by <FirebaseApp> */
+	private context: FirebaseContext;
 	/** Subscription cleanup function */
 	private unsubscribe: (() => void) | null = null;
 
@@ -53,8 +59,11 @@ class FirekitRealtimeDB<T> {
 	 * Creates a Realtime Database subscription
 	 * @param {string} path Database path
 	 * @param {T} [startWith] Initial data before fetch completes
+	 * @param {FirekitAppOptions} [options] Target app options
 	 */
-	constructor(path: string, startWith?: T) {
+	constructor(path: string, startWith?: T, options: FirekitAppOptions = {}) {
+		this.context = resolveFirebaseContext(options);
+		this.options = { ...options, app: options.app ?? this.context.app?.name };
 		this._data = startWith ?? null;
 
 		if (browser) {
@@ -69,7 +78,8 @@ class FirekitRealtimeDB<T> {
 	 */
 	private initializeRealtimeDB(path: string) {
 		try {
-			const database = firebaseService.getDatabaseInstance();
+			const database =
+				this.context.database ?? getFirebaseService(this.options.app).getDatabaseInstance();
 			if (!database) {
 				throw new Error('Database instance not available');
 			}
@@ -202,6 +212,7 @@ class FirekitRealtimeDB<T> {
  * @template T Data type
  * @param {string} path Database path
  * @param {T} [startWith] Initial data
+ * @param {FirekitAppOptions} [options] Target app options
  * @returns {FirekitRealtimeDB<T>} Database subscription instance
  *
  * @example
@@ -209,8 +220,12 @@ class FirekitRealtimeDB<T> {
  * const chatRef = firekitRealtimeDB<ChatMessage>('chats/123');
  * ```
  */
-export function firekitRealtimeDB<T>(path: string, startWith?: T): FirekitRealtimeDB<T> {
-	return new FirekitRealtimeDB<T>(path, startWith);
+export function firekitRealtimeDB<T>(
+	path: string,
+	startWith?: T,
+	options?: FirekitAppOptions
+): FirekitRealtimeDB<T> {
+	return new FirekitRealtimeDB<T>(path, startWith, options);
 }
 
 /**
@@ -220,6 +235,7 @@ export function firekitRealtimeDB<T>(path: string, startWith?: T): FirekitRealti
  * @template T List item type
  * @param {string} path Database path
  * @param {T[]} [startWith=[]] Initial array data
+ * @param {FirekitAppOptions} [options] Target app options
  * @returns {FirekitRealtimeDB} Database subscription instance with array support
  *
  * @example
@@ -230,7 +246,8 @@ export function firekitRealtimeDB<T>(path: string, startWith?: T): FirekitRealti
  */
 export function firekitRealtimeList<T>(
 	path: string,
-	startWith: T[] = []
+	startWith: T[] = [],
+	options?: FirekitAppOptions
 ): FirekitRealtimeDB<Record<string, T>> & { list: Array<T & { id: string }> } {
 	const startWithRecord = startWith.reduce(
 		(acc, item, index) => {
@@ -253,5 +270,5 @@ export function firekitRealtimeList<T>(
 		get list() {
 			return this._list;
 		}
-	})(path, startWithRecord);
+	})(path, startWithRecord, options);
 }
@@ -15,7 +15,9 @@ import {
 	type UploadTaskSnapshot
 } from 'firebase/storage';
 import { browser } from '$app/environment';
-import { firebaseService } from '../firebase.js';
+import { getFirebaseService } from '../firebase.js';
+import { resolveFirebaseContext } from '../context.js';
+import type { FirebaseContext, FirekitAppOptions } from '../types/firebase.js';
 
 /**
  * Manages Firebase Storage download URL fetching with reactive state
@@ -43,17 +45,24 @@ class FirekitDownloadUrl {
 	private _error = $state<Error | null>(null);
 	/** Storage reference */
 	private storageRef: StorageReference | null = null;
+	/** Target app options */
+	private options: FirekitAppOptions;
+	/** Instances provided by <FirebaseApp> */
+	private context: FirebaseContext;
 
 	/**
 	 * Creates a download URL fetcher
 	 * @param {string} path Storage path to file
+	 * @param {FirekitAppOptions} [options] Target app options
 	 *
 	 * @example
 	 * ```typescript
 	 * const url = new FirekitDownloadUrl('documents/file.pdf');
 	 * ```
 	 */
-	constructor(path: string) {
+	constructor(path: string, options: FirekitAppOptions = {}) {
+		this.context = resolveFirebaseContext(options);
+		this.options = { ...options, app: options.app ?? this.context.app?.name };
 		if (browser) {
 			this.initializeDownload(path);
 		}
@@ -66,7 +75,8 @@ class FirekitDownloadUrl {
 	 */
 	private async initializeDownload(path: string) {
 		try {
-			const storage = firebaseService.getStorageInstance();
+			const storage =
+				this.context.storage ?? getFirebaseService(this.options.app).getStorageInstance();
 			if (!storage) {
 				throw new Error('Storage instance not available');
 			}
@@ -140,17 +150,24 @@ class FirekitStorageList {
 	private _error = $state<Error | null>(null);
 	/** Storage reference */
 	private storageRef: StorageReference | null = null;
+	/** Target app options */
+	private options: FirekitAppOptions;
+	/** Instances provided by <FirebaseApp> */
+	private context: FirebaseContext;
 
 	/**
 	 * Creates a storage directory lister
 	 * @param {string} path Storage directory path
+	 * @param {FirekitAppOptions} [options] Target app options
 	 *
 	 * @example
 	 * ```typescript
 	 * const list = new FirekitStorageList('uploads/2024');
 	 * ```
 	 */
-	constructor(path: string) {
+	constructor(path: string, options: FirekitAppOptions = {}) {
+		this.context = resolveFirebaseContext(options);
+		this.options = { ...options, app: options.app ?? this.context.app?.name };
 		if (browser) {
 			this.initializeList(path);
 		}
@@ -163,7 +180,8 @@ class FirekitStorageList {
 	 */
 	private async initializeList(path: string) {
 		try {
-			const storage = firebaseService.getStorageInstance();
+			const storage =
+				this.context.storage ?? getFirebaseService(this.options.app).getStorageInstance();
 			if (!storage) {
 				throw new Error('Storage instance not available');
 			}
@@ -253,18 +271,25 @@ class FirekitUploadTask {
 	private uploadTask: UploadTask | null = null;
 	/** Storage reference */
 	private storageRef: StorageReference | null = null;
+	/** Target app options */
+	private options: FirekitAppOptions;
+	/** Instances provided by <FirebaseApp> */
+	private context: FirebaseContext;
 
 	/**
 	 * Creates an upload task
 	 * @param {string} path Storage path for upload
 	 * @param {File} file File to upload
+	 * @param {FirekitAppOptions} [options] Target app options
 	 *
 	 * @example
 	 * ```typescript
 	 * const task = new FirekitUploadTask('documents/report.pdf', file);
 	 * ```
 	 */
-	constructor(path: string, file: File) {
+	constructor(path: string, file: File, options: FirekitAppOptions = {}) {
+		this.context = resolveFirebaseContext(options);
+		this.options = { ...options, app: options.app ?? this.context.app?.name };
 		if (browser) {
 			this.initializeUpload(path, file);
 		}
@@ -278,7 +303,8 @@ class FirekitUploadTask {
 	 */
 	private initializeUpload(path: string, file: File) {
 		try {
-			const storage = firebaseService.getStorageInstance();
+			const storage =
+				this.context.storage ?? getFirebaseService(this.options.app).getStorageInstance();
 			if (!storage) {
 				throw new Error('Storage instance not available');
 			}
@@ -355,6 +381,7 @@ class FirekitUploadTask {
 /**
  * Creates a download URL fetcher
  * @param {string} path Storage path to file
+ * @param {FirekitAppOptions} [options] Target app options
  * @returns {FirekitDownloadUrl} Download URL fetcher instance
  *
  * @example
@@ -369,13 +396,14 @@ class FirekitUploadTask {
  * {/if}
  * ```
  */
-export function firekitDownloadUrl(path: string): FirekitDownloadUrl {
-	return new FirekitDownloadUrl(path);
+export function firekitDownloadUrl(path: string, options?: FirekitAppOptions): FirekitDownloadUrl {
+	return new FirekitDownloadUrl(path, options);
 }
 
 /**
  * Creates a storage directory lister
  * @param {string} path Storage directory path
+ * @param {FirekitAppOptions} [options] Target app options
  * @returns {FirekitStorageList} Storage list instance
  *
  * @example
@@ -394,14 +422,15 @@ export function firekitDownloadUrl(path: string): FirekitDownloadUrl {
  * {/if}
  * ```
  */
-export function firekitStorageList(path: string): FirekitStorageList {
-	return new FirekitStorageList(path);
+export function firekitStorageList(path: string, options?: FirekitAppOptions): FirekitStorageList {
+	return new FirekitStorageList(path, options);
 }
 
 /**
  * Creates an upload task
  * @param {string} path Storage path for upload
  * @param {File} file File to upload
+ * @param {FirekitAppOptions} [options] Target app options
  * @returns {FirekitUploadTask} Upload task instance
  *
  * @example
@@ -416,6 +445,10 @@ export function firekitStorageList(path: string): FirekitStorageList {
  * {/if}
  * ```
  */
-export function firekitUploadTask(path: string, file: File): FirekitUploadTask {
-	return new FirekitUploadTask(path, file);
+export function firekitUploadTask(
+	path: string,
+	file: File,
+	options?: FirekitAppOptions
+): FirekitUploadTask {
+	return new FirekitUploadTask(path, file, options);
 }
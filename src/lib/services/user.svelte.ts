@@ -4,30 +4,27 @@
  * @version 1.0.0
  */
 
-import {
-	onAuthStateChanged,
-	updateProfile,
-	updateEmail,
-	updatePassword,
-	reload,
-	sendEmailVerification,
-	getIdToken,
-	type User as FirebaseUser
-} from 'firebase/auth';
-import { doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore';
+import { updatePassword, sendEmailVerification, getIdToken } from 'firebase/auth';
+import { doc, setDoc, getDoc, onSnapshot, serverTimestamp } from 'firebase/firestore';
 import { firebaseService } from '../firebase.js';
+import { firekitAuth } from './auth.js';
 import {
+	type AuthState,
 	type UserProfile,
 	type UserProfileUpdateData,
+	type UserClaims,
 	FirekitAuthError,
 	AuthErrorCode
 } from '../types/auth.js';
 import {
-	mapFirebaseUserToProfile,
-	updateUserInFirestore,
+	getUserDocRef,
+	getCustomClaims,
+	hasRole,
+	hasClaim,
 	createAuthError,
 	validateCurrentUser
 } from '../utils/index.js';
+import { lazySingleton } from '../utils/lazy.js';
 
 /**
  * User store interface for type safety
@@ -73,8 +70,7 @@ export interface ExtendedUserData extends UserProfile {
  */
 class FirekitUserStore {
 	private static instance: FirekitUserStore;
-	private auth: ReturnType<typeof firebaseService.getAuthInstance> | null = null;
-	private firestore: ReturnType<typeof firebaseService.getDbInstance> | null = null;
+	private _auth: ReturnType<typeof firebaseService.getAuthInstance> | null = null;
 	private _servicesInitialized = false;
 
 	// ========================================
@@ -93,6 +89,18 @@ class FirekitUserStore {
 	/** Current error state */
 	private _error = $state<Error | null>(null);
 
+	/** Custom claims of the current user's ID token */
+	private _claims = $state<UserClaims>({});
+
+	/** Issue time of the token the claims were read from */
+	private claimsIssuedAt = 0;
+
+	/** Unsubscribes from the claims refresh document */
+	private claimsRefreshUnsubscribe: (() => void) | null = null;
+
+	/** Unsubscribes from the auth service state and events */
+	private authUnsubscribers: Array<() => void> = [];
+
 	// ========================================
 	// DERIVED STATE
 	// ========================================
@@ -123,8 +131,7 @@ class FirekitUserStore {
 
 	private constructor() {
 		if (typeof window !== 'undefined') {
-			// Initialize Firebase services immediately like the old working code
-			this.initializeServices();
+			this.initializeAuthStateListener();
 		}
 	}
 
@@ -140,17 +147,39 @@ class FirekitUserStore {
 	}
 
 	/**
-	 * Initializes Firebase services and auth state listener
+	 * Auth instance, resolved on first use so that `createFirekit()` calls made after
+	 * importing firekit still apply
+	 * @private
+	 */
+	private get auth(): ReturnType<typeof firebaseService.getAuthInstance> | null {
+		this.initializeServices();
+		return this._auth;
+	}
+
+	/**
+	 * Firestore instance, read on each use so that the instance recreated after
+	 * `firebaseService.terminate()` is picked up; null if Firestore is not available
+	 * @private
+	 */
+	private get firestore(): ReturnType<typeof firebaseService.getDbInstance> | null {
+		if (typeof window === 'undefined') return null;
+		try {
+			return firebaseService.getDbInstance();
+		} catch {
+			return null;
+		}
+	}
+
+	/**
+	 * Initializes Firebase services
 	 * @private
 	 */
 	private initializeServices(): void {
-		if (this._servicesInitialized) return;
+		if (this._servicesInitialized || typeof window === 'undefined') return;
 
 		try {
-			this.auth = firebaseService.getAuthInstance();
-			this.firestore = firebaseService.getDbInstance();
+			this._auth = firebaseService.getAuthInstance();
 			this._servicesInitialized = true;
-			this.initializeAuthStateListener();
 		} catch (error) {
 			console.error('Failed to initialize Firebase services:', error);
 			this._error = error instanceof Error ? error : new Error(String(error));
@@ -160,49 +189,89 @@ class FirekitUserStore {
 	}
 
 	/**
-	 * Initializes the authentication state listener
+	 * Derives the user state from firekitAuth, which also applies the sign-outs,
+	 * profile updates and claims refreshes made in other tabs
 	 * @private
 	 */
 	private initializeAuthStateListener(): void {
-		if (!this.auth) {
-			console.error('Auth instance not available');
-			return;
-		}
-
-		onAuthStateChanged(
-			this.auth,
-			(firebaseUser) => {
-				this._user = firebaseUser ? this.mapFirebaseUserToProfile(firebaseUser) : null;
-				this._loading = false;
-				this._initialized = true;
-				this._error = null;
-			},
-			(error) => {
-				console.error('Auth state change error:', error);
-				this._error = error;
-				this._loading = false;
-				this._initialized = true;
-			}
+		this.authUnsubscribers.push(
+			firekitAuth.onAuthStateChanged((state) => this.applyAuthState(state)),
+			firekitAuth.on('claimsRefresh', () => {
+				this.refreshClaims().catch((error) => {
+					console.error('Failed to load refreshed custom claims:', error);
+				});
+			})
 		);
 	}
 
 	/**
-	 * Maps Firebase User to UserProfile interface
+	 * Mirrors the auth service state, loading the claims when the signed-in user changes
 	 * @private
 	 */
-	private mapFirebaseUserToProfile(user: FirebaseUser): UserProfile {
-		return mapFirebaseUserToProfile(user);
+	private applyAuthState(state: AuthState): void {
+		if (!state.initialized) return;
+
+		const userChanged = (state.user?.uid ?? null) !== (this._user?.uid ?? null);
+		this._user = state.user;
+
+		if (!this._initialized) {
+			this._loading = false;
+			this._initialized = true;
+		}
+		if (userChanged) {
+			this._error = null;
+			this.syncClaims(state.user);
+		}
 	}
 
 	/**
-	 * Updates user data in Firestore
+	 * Loads the claims of a new user and watches its claims refresh document
 	 * @private
 	 */
-	private async updateUserInFirestore(user: FirebaseUser): Promise<void> {
-		if (!this.firestore) {
-			throw new Error('Firestore instance not available');
+	private syncClaims(user: UserProfile | null): void {
+		this.claimsRefreshUnsubscribe?.();
+		this.claimsRefreshUnsubscribe = null;
+
+		if (!user) {
+			this._claims = {};
+			this.claimsIssuedAt = 0;
+			return;
 		}
-		await updateUserInFirestore(this.firestore, user);
+
+		this.refreshClaims().catch((error) => {
+			console.error('Failed to load custom claims:', error);
+		});
+
+		const refreshPath = firekitAuth.getConfig().claimsRefreshPath;
+		if (!refreshPath || !this.firestore) return;
+
+		this.claimsRefreshUnsubscribe = onSnapshot(
+			doc(this.firestore, refreshPath.replace('{uid}', user.uid)),
+			(snapshot) => {
+				const refreshTime = this.toMillis(snapshot.data()?.refreshTime);
+				// Tokens issued after the refresh time already carry the new claims. Every tab
+				// watches the document, so the refresh is not broadcast to the others.
+				if (refreshTime > this.claimsIssuedAt) {
+					this.refreshClaims(true, false).catch((error) => {
+						console.error('Failed to refresh custom claims:', error);
+					});
+				}
+			},
+			(error) => {
+				console.warn('Failed to watch claims refresh document:', error);
+			}
+		);
+	}
+
+	/**
+	 * Converts a Firestore Timestamp, Date or epoch milliseconds to milliseconds
+	 * @private
+	 */
+	private toMillis(time: any): number {
+		if (typeof time === 'number') return time;
+		if (time instanceof Date) return time.getTime();
+		if (typeof time?.toMillis === 'function') return time.toMillis();
+		return 0;
 	}
 
 	// ========================================
@@ -269,6 +338,85 @@ class FirekitUserStore {
 		return this._userPhoneNumber;
 	}
 
+	/** Custom claims of the current user's ID token */
+	get claims(): UserClaims {
+		return this._claims;
+	}
+
+	// ========================================
+	// CLAIMS METHODS
+	// ========================================
+
+	/**
+	 * Checks whether the user has a role, set as a `role` claim,
+	 * within a `roles` claim or as a boolean claim such as `admin: true`
+	 * @param {string} role Role to check
+	 * @returns {boolean} Whether the user has the role
+	 *
+	 * @example
+	 * ```svelte
+	 * {#if firekitUser.hasRole('admin')}
+	 *   <AdminPanel />
+	 * {/if}
+	 * ```
+	 */
+	hasRole(role: string): boolean {
+		return hasRole(this._claims, role);
+	}
+
+	/**
+	 * Checks whether the user has a claim, optionally with a given value
+	 * @param {string} key Claim name
+	 * @param {any} [value] Expected value; any value if omitted
+	 * @returns {boolean} Whether the user has the claim
+	 *
+	 * @example
+	 * ```typescript
+	 * const isPro = firekitUser.hasClaim('plan', 'pro');
+	 * ```
+	 */
+	hasClaim(key: string, value?: any): boolean {
+		return hasClaim(this._claims, key, value);
+	}
+
+	/**
+	 * Reloads the custom claims from the ID token
+	 * @param {boolean} [forceRefresh=false] Whether to fetch a new token, e.g. after claims changed
+	 * @param {boolean} [syncTabs=true] Whether a forced refresh also refreshes the other tabs
+	 * @returns {Promise<UserClaims>} Promise resolving to the custom claims
+	 * @throws {FirekitAuthError} If getting the token fails
+	 *
+	 * @example
+	 * ```typescript
+	 * // After a backend function updated the user's claims
+	 * await firekitUser.refreshClaims(true);
+	 * ```
+	 */
+	async refreshClaims(
+		forceRefresh: boolean = false,
+		syncTabs: boolean = true
+	): Promise<UserClaims> {
+		if (!this.auth) {
+			throw new Error('Auth instance not available');
+		}
+
+		const currentUser = validateCurrentUser(this.auth);
+
+		try {
+			const result = await firekitAuth.getIdTokenResult(forceRefresh, syncTabs);
+			const claims = getCustomClaims(result.claims);
+			// The user may have signed out or changed meanwhile
+			if (this.auth.currentUser?.uid === currentUser.uid) {
+				this._claims = claims;
+				this.claimsIssuedAt = new Date(result.issuedAtTime).getTime();
+			}
+			return claims;
+		} catch (error: any) {
+			this._error = error;
+			throw createAuthError(error, 'refresh claims');
+		}
+	}
+
 	// ========================================
 	// PROFILE UPDATE METHODS
 	// ========================================
@@ -289,17 +437,11 @@ class FirekitUserStore {
 			throw new Error('Auth instance not available');
 		}
 
-		const currentUser = validateCurrentUser(this.auth);
+		validateCurrentUser(this.auth);
 
 		try {
 			this._loading = true;
-			await updateProfile(currentUser, { displayName });
-			await this.updateUserInFirestore(currentUser);
-
-			// Update local state
-			if (this._user) {
-				this._user = { ...this._user, displayName };
-			}
+			await firekitAuth.updateUserProfile({ displayName });
 		} catch (error: any) {
 			this._error = error;
 			throw createAuthError(error, 'update display name');
@@ -324,17 +466,11 @@ class FirekitUserStore {
 			throw new Error('Auth instance not available');
 		}
 
-		const currentUser = validateCurrentUser(this.auth);
+		validateCurrentUser(this.auth);
 
 		try {
 			this._loading = true;
-			await updateProfile(currentUser, { photoURL });
-			await this.updateUserInFirestore(currentUser);
-
-			// Update local state
-			if (this._user) {
-				this._user = { ...this._user, photoURL };
-			}
+			await firekitAuth.updateUserProfile({ photoURL });
 		} catch (error: any) {
 			this._error = error;
 			throw createAuthError(error, 'update photo URL');
@@ -362,21 +498,11 @@ class FirekitUserStore {
 			throw new Error('Auth instance not available');
 		}
 
-		const currentUser = validateCurrentUser(this.auth);
+		validateCurrentUser(this.auth);
 
 		try {
 			this._loading = true;
-			await updateProfile(currentUser, profileData);
-			await this.updateUserInFirestore(currentUser);
-
-			// Update local state
-			if (this._user) {
-				this._user = {
-					...this._user,
-					displayName: profileData.displayName ?? this._user.displayName,
-					photoURL: profileData.photoURL ?? this._user.photoURL
-				};
-			}
+			await firekitAuth.updateUserProfile(profileData);
 		} catch (error: any) {
 			this._error = error;
 			throw createAuthError(error, 'update profile');
@@ -401,17 +527,11 @@ class FirekitUserStore {
 			throw new Error('Auth instance not available');
 		}
 
-		const currentUser = validateCurrentUser(this.auth);
+		validateCurrentUser(this.auth);
 
 		try {
 			this._loading = true;
-			await updateEmail(currentUser, newEmail);
-			await this.updateUserInFirestore(currentUser);
-
-			// Update local state
-			if (this._user) {
-				this._user = { ...this._user, email: newEmail, emailVerified: false };
-			}
+			await firekitAuth.updateEmail(newEmail);
 		} catch (error: any) {
 			this._error = error;
 			throw createAuthError(error, 'update email');
@@ -493,15 +613,11 @@ class FirekitUserStore {
 			throw new Error('Auth instance not available');
 		}
 
-		const currentUser = validateCurrentUser(this.auth);
+		validateCurrentUser(this.auth);
 
 		try {
 			this._loading = true;
-			await reload(currentUser);
-			await this.updateUserInFirestore(currentUser);
-
-			// Update local state with reloaded data
-			this._user = this.mapFirebaseUserToProfile(currentUser);
+			await firekitAuth.reloadUser();
 		} catch (error: any) {
 			this._error = error;
 			throw createAuthError(error, 'reload user');
@@ -560,7 +676,12 @@ class FirekitUserStore {
 		}
 
 		try {
-			const userRef = doc(this.firestore, 'users', this._user.uid);
+			const userRef = getUserDocRef(
+				this.firestore,
+				this._user.uid,
+				firekitAuth.getConfig(),
+				this._user.tenantId
+			);
 			const userDoc = await getDoc(userRef);
 
 			if (userDoc.exists()) {
@@ -597,7 +718,12 @@ class FirekitUserStore {
 		}
 
 		try {
-			const userRef = doc(this.firestore, 'users', this._user.uid);
+			const userRef = getUserDocRef(
+				this.firestore,
+				this._user.uid,
+				firekitAuth.getConfig(),
+				this._user.tenantId
+			);
 			await setDoc(
 				userRef,
 				{
@@ -668,18 +794,23 @@ class FirekitUserStore {
 	 * Resets the store to initial state
 	 */
 	reset(): void {
+		this.authUnsubscribers.forEach((unsubscribe) => unsubscribe());
+		this.authUnsubscribers = [];
+		this.claimsRefreshUnsubscribe?.();
+		this.claimsRefreshUnsubscribe = null;
+		this._claims = {};
+		this.claimsIssuedAt = 0;
 		this._user = null;
 		this._loading = true;
 		this._initialized = false;
 		this._error = null;
 		this._servicesInitialized = false;
-		this.auth = null;
-		this.firestore = null;
+		this._auth = null;
 	}
 }
 
 /**
- * Pre-initialized singleton instance of FirekitUserStore.
+ * Singleton instance of FirekitUserStore, created on first use.
  * Provides reactive user state management for Svelte applications.
  *
  * @example
@@ -698,4 +829,4 @@ class FirekitUserStore {
  * const userData = await firekitUser.getExtendedUserData();
  * ```
  */
-export const firekitUser = FirekitUserStore.getInstance();
+export const firekitUser = lazySingleton(() => FirekitUserStore.getInstance());
@@ -4,6 +4,8 @@
  * @version 1.0.0
  */
 
+import type { AuthCredential, User } from 'firebase/auth';
+
 /**
  * User profile interface with all Firebase user properties
  */
@@ -28,6 +30,8 @@ export interface UserProfile {
 		phoneNumber: string | null;
 		photoURL: string | null;
 	}>;
+	/** Identity Platform tenant the user belongs to, or null for project-level users */
+	tenantId: string | null;
 	customClaims?: Record<string, any>;
 }
 
@@ -38,6 +42,10 @@ export interface AuthState {
 	user: UserProfile | null;
 	loading: boolean;
 	initialized: boolean;
+	/** Whether a redirect sign-in is in progress or its result is being processed */
+	pendingRedirect: boolean;
+	/** Identity Platform tenant used for sign-in, or null for the project */
+	tenantId: string | null;
 }
 
 /**
@@ -75,14 +83,162 @@ export interface OAuthSignInResult extends SignInResult {
 	provider: OAuthProviderType;
 	accessToken?: string;
 	refreshToken?: string;
+	/** OIDC ID token returned by the provider, if any */
+	idToken?: string;
+	/** OAuth 1.0 token secret (Twitter) */
+	secret?: string;
+}
+
+/**
+ * How an OAuth sign-in is presented to the user.
+ * `auto` uses a redirect where popups are unreliable (iOS standalone PWAs,
+ * embedded webviews) and a popup elsewhere.
+ */
+export type OAuthSignInMode = 'popup' | 'redirect' | 'auto';
+
+/**
+ * Options for signing in with an OAuth, OIDC or SAML provider
+ */
+export interface OAuthSignInOptions {
+	/** Additional OAuth scopes to request (ignored by SAML providers) */
+	scopes?: string[];
+	/** Custom OAuth parameters, merged over the provider's own */
+	customParameters?: Record<string, string>;
+	/** Sign-in flow to use (default: 'popup') */
+	mode?: OAuthSignInMode;
+	/** Keep the user signed in across browser restarts (default: the configured persistence) */
+	rememberMe?: boolean;
+}
+
+/**
+ * Second factor types supported for multi-factor authentication
+ */
+export type MultiFactorType = 'totp' | 'phone';
+
+/**
+ * Second factor enrolled by a user
+ */
+export interface EnrolledFactor {
+	uid: string;
+	factorId: MultiFactorType;
+	displayName: string | null;
+	enrollmentTime: string;
+	/** Masked phone number of SMS factors */
+	phoneNumber?: string;
+}
+
+/**
+ * Returned instead of a sign-in result when the user must complete a second factor
+ */
+export interface MultiFactorChallenge<T extends SignInResult = SignInResult> {
+	success: false;
+	requiresMultiFactor: true;
+	/** Method of the first factor */
+	method: AuthMethodType;
+	/** Second factors the user can complete sign-in with */
+	hints: EnrolledFactor[];
+	/** Completes sign-in with a code from an authenticator app */
+	resolveWithTotp: (code: string, factorUid?: string) => Promise<T>;
+	/** Sends an SMS code to an enrolled phone factor; returns the verification id */
+	sendSmsCode: (recaptchaContainerId: string, factorUid?: string) => Promise<string>;
+	/** Completes sign-in with the code sent by `sendSmsCode` */
+	resolveWithSms: (code: string) => Promise<T>;
+}
+
+/**
+ * Checks whether a sign-in returned a multi-factor challenge instead of a result
+ * @param {SignInResult | MultiFactorChallenge} result Sign-in outcome
+ * @returns {boolean} True if a second factor is required
+ */
+export function isMultiFactorChallenge<T extends SignInResult>(
+	result: T | MultiFactorChallenge<T> | null
+): result is MultiFactorChallenge<T> {
+	return (result as MultiFactorChallenge<T> | null)?.requiresMultiFactor === true;
+}
+
+/**
+ * Pending second factor enrollment, completed by confirming a verification code
+ */
+export interface MultiFactorEnrollment {
+	factorId: MultiFactorType;
+	/** Completes enrollment and returns the user's enrolled factors */
+	confirm: (code: string, displayName?: string) => Promise<EnrolledFactor[]>;
+}
+
+/**
+ * Pending TOTP enrollment with the secret to add to an authenticator app
+ */
+export interface TotpEnrollment extends MultiFactorEnrollment {
+	factorId: 'totp';
+	secretKey: string;
+	/** `otpauth://` URI to render as a QR code */
+	qrCodeUri: string;
+	codeLength: number;
+	codeIntervalSeconds: number;
+	/** Enrollment must be confirmed before this UTC timestamp */
+	enrollmentDeadline: string;
+}
+
+/**
+ * Pending SMS factor enrollment
+ */
+export interface PhoneFactorEnrollment extends MultiFactorEnrollment {
+	factorId: 'phone';
+	verificationId: string;
+}
+
+/**
+ * Account linking result interface
+ */
+export interface AccountLinkResult extends AuthResult {
+	/** Firebase provider id of the linked credential, e.g. 'password' or 'google.com' */
+	providerId: string;
+	/** Whether the user was anonymous before linking */
+	upgradedFromAnonymous: boolean;
+	accessToken?: string;
+	idToken?: string;
 }
 
 /**
  * Phone verification result interface
  */
-export interface PhoneVerificationResult {
+export interface PhoneVerificationResult<T extends AuthResult = SignInResult> {
+	/** Verification ID of the last code sent */
 	verificationId: string;
-	confirm: (code: string) => Promise<SignInResult>;
+	/** Number of times the code was resent */
+	resendCount: number;
+	/** When the code can be resent */
+	resendAvailableAt: Date;
+	/** Confirms the last code sent */
+	confirm: (code: string) => Promise<T>;
+	/** Sends a new code; fails with `auth/code-resend-cooldown` before `resendAvailableAt` */
+	resend: () => Promise<void>;
+	/** Seconds left until the code can be resent */
+	getResendCooldown: () => number;
+}
+
+/**
+ * reCAPTCHA verifier options for phone verification
+ */
+export interface RecaptchaOptions {
+	/** Widget size; 'invisible' runs the check without a checkbox (default: 'normal') */
+	size?: 'normal' | 'compact' | 'invisible';
+	/** Widget theme */
+	theme?: 'light' | 'dark';
+	/** Called with the reCAPTCHA response when the check is solved */
+	onSolved?: (response: string) => void;
+	/** Called when the solved check expires; the verifier is reset automatically */
+	onExpired?: () => void;
+}
+
+/**
+ * Phone sign-in and linking options
+ */
+export interface PhoneSignInOptions {
+	/** reCAPTCHA verifier options */
+	recaptcha?: RecaptchaOptions;
+	/** Seconds before the code can be resent (default: 30) */
+	resendCooldownSeconds?: number;
 }
 
 /**
@@ -94,6 +250,33 @@ export interface PasswordUpdateResult {
 	code?: string;
 }
 
+/**
+ * SMS reauthentication options
+ */
+export interface PhoneReauthentication {
+	/** Phone number to send the code to (default: the user's phone number) */
+	phoneNumber?: string;
+	/** ID of the reCAPTCHA container element */
+	recaptchaContainerId: string;
+	/** Asks the user for the SMS code; return null to cancel */
+	getVerificationCode: () => string | null | Promise<string | null>;
+}
+
+/**
+ * Credentials to reauthenticate the current user with
+ */
+export type ReauthenticationMethod =
+	| { password: string }
+	| { provider: OAuthProviderType; customParameters?: Record<string, string> }
+	| { phone: PhoneReauthentication };
+
+/**
+ * Called when an operation fails with `auth/requires-recent-login`.
+ * Returns how to reauthenticate, e.g. after asking the user, or null to cancel.
+ */
+export type ReauthenticationCallback = () =>
+	ReauthenticationMethod | null | Promise<ReauthenticationMethod | null>;
+
 /**
  * Account deletion result interface
  */
@@ -112,6 +295,21 @@ export interface UserRegistrationData {
 	photoURL?: string;
 }
 
+/**
+ * Custom claims of the signed-in user's ID token
+ */
+export type UserClaims = Record<string, any>;
+
+/**
+ * Claims a user must have to access guarded content
+ */
+export interface ClaimRequirements {
+	/** Roles of which the user needs at least one */
+	roles?: string[];
+	/** Claims the user needs, each with the given value */
+	requiredClaims?: UserClaims;
+}
+
 /**
  * User profile update data interface
  */
@@ -157,7 +355,9 @@ export type OAuthProviderType =
 	| 'apple'
 	| 'microsoft'
 	| 'github'
-	| 'twitter';
+	| 'twitter'
+	| `oidc.${string}`
+	| `saml.${string}`;
 
 /**
  * Authentication method types
@@ -171,6 +371,9 @@ export type AuthMethodType =
 	| 'microsoft'
 	| 'github'
 	| 'twitter'
+	| `oidc.${string}`
+	| `saml.${string}`
+	| 'emailLink'
 	| 'anonymous';
 
 /**
@@ -183,7 +386,18 @@ export type AuthEventType =
 	| 'passwordReset'
 	| 'emailVerification'
 	| 'profileUpdate'
+	| 'emailUpdate'
+	| 'passwordUpdate'
 	| 'accountDeletion'
+	| 'accountLink'
+	| 'accountUnlink'
+	| 'reauthentication'
+	| 'multiFactorEnroll'
+	| 'multiFactorUnenroll'
+	| 'idleWarning'
+	| 'idleReset'
+	| 'idleTimeout'
+	| 'claimsRefresh'
 	| 'error';
 
 /**
@@ -194,22 +408,68 @@ export interface AuthEventData {
 	user?: UserProfile | null;
 	method?: AuthMethodType;
 	error?: FirekitAuthError;
+	/** When an idle session is signed out, for `idleWarning` events */
+	expiresAt?: Date;
 	timestamp: Date;
 }
 
+/**
+ * Handler of authentication events
+ */
+export type AuthEventHandler = (event: AuthEventData) => void;
+
+/**
+ * Where the signed-in user is persisted:
+ * `local` across browser restarts, `session` until the tab closes, `none` until reload
+ */
+export type AuthPersistence = 'local' | 'session' | 'none';
+
+/**
+ * Idle session timeout options
+ */
+export interface IdleTimeoutOptions {
+	/** Minutes of inactivity, across all tabs, before the user is signed out (default: 30) */
+	timeoutMinutes?: number;
+	/** Seconds before sign-out to emit `idleWarning` (default: 60) */
+	warningSeconds?: number;
+	/** DOM events counted as activity (default: pointer, keyboard, scroll and touch events) */
+	activityEvents?: string[];
+}
+
+/**
+ * Maps a Firebase user to the fields written to its Firestore user document
+ */
+export type UserDocumentMapper = (user: User) => Record<string, any>;
+
 /**
  * Authentication configuration interface
  */
 export interface AuthConfig {
-	/** Enable automatic Firestore user data sync */
+	/** Enable automatic Firestore user data sync (default: true) */
 	enableFirestoreSync?: boolean;
-	/** Custom Firestore collection path for users */
+	/**
+	 * Custom Firestore collection path for users (default: 'users').
+	 * Users of Identity Platform tenants are stored under `tenants/{tenantId}/{usersCollectionPath}`.
+	 */
 	usersCollectionPath?: string;
-	/** Enable email verification on registration */
+	/** Controls which fields are written to the user document */
+	userDocumentMapper?: UserDocumentMapper;
+	/** Only write the user document when it does not exist yet */
+	syncOnCreateOnly?: boolean;
+	/**
+	 * Firestore document whose `refreshTime` triggers a claims refresh, e.g. 'metadata/{uid}'.
+	 * `{uid}` is replaced by the signed-in user's ID.
+	 */
+	claimsRefreshPath?: string;
+	/** Send a verification email on registration (default: true) */
 	requireEmailVerification?: boolean;
-	/** Custom error message overrides */
+	/** Custom error message overrides, e.g. for localization */
 	errorMessages?: Partial<Record<AuthErrorCode, string>>;
-	/** Enable analytics tracking */
+	/** Where the signed-in user is persisted (default: 'local') */
+	persistence?: AuthPersistence;
+	/** Sign out after a period of inactivity */
+	idleTimeout?: IdleTimeoutOptions;
+	/** Log `login` and `sign_up` events to Firebase Analytics */
 	enableAnalytics?: boolean;
 }
 
@@ -221,9 +481,14 @@ export enum AuthErrorCode {
 	INVALID_EMAIL = 'auth/invalid-email',
 	USER_NOT_FOUND = 'auth/user-not-found',
 	WRONG_PASSWORD = 'auth/wrong-password',
+	INVALID_CREDENTIAL = 'auth/invalid-credential',
 	WEAK_PASSWORD = 'auth/weak-password',
+	PASSWORD_DOES_NOT_MEET_REQUIREMENTS = 'auth/password-does-not-meet-requirements',
+	PASSWORDS_DO_NOT_MATCH = 'auth/passwords-do-not-match',
 	TOO_MANY_REQUESTS = 'auth/too-many-requests',
 	POPUP_CLOSED = 'auth/popup-closed-by-user',
+	POPUP_BLOCKED = 'auth/popup-blocked',
+	OPERATION_NOT_SUPPORTED = 'auth/operation-not-supported-in-this-environment',
 	NETWORK_REQUEST_FAILED = 'auth/network-request-failed',
 	USER_DISABLED = 'auth/user-disabled',
 	OPERATION_NOT_ALLOWED = 'auth/operation-not-allowed',
@@ -236,9 +501,24 @@ export enum AuthErrorCode {
 	MISSING_PASSWORD = 'auth/missing-password',
 	INVALID_PHONE_NUMBER = 'auth/invalid-phone-number',
 	MISSING_PHONE_NUMBER = 'auth/missing-phone-number',
+	MISSING_VERIFICATION_CODE = 'auth/missing-verification-code',
+	CAPTCHA_CHECK_FAILED = 'auth/captcha-check-failed',
+	CODE_RESEND_COOLDOWN = 'auth/code-resend-cooldown',
 	QUOTA_EXCEEDED = 'auth/quota-exceeded',
 	APP_NOT_AUTHORIZED = 'auth/app-not-authorized',
 	KEYBOARD_NOT_SUPPORTED = 'auth/keychain-error',
+	CREDENTIAL_ALREADY_IN_USE = 'auth/credential-already-in-use',
+	ACCOUNT_EXISTS_WITH_DIFFERENT_CREDENTIAL = 'auth/account-exists-with-different-credential',
+	PROVIDER_ALREADY_LINKED = 'auth/provider-already-linked',
+	NO_SUCH_PROVIDER = 'auth/no-such-provider',
+	MULTI_FACTOR_AUTH_REQUIRED = 'auth/multi-factor-auth-required',
+	MULTI_FACTOR_INFO_NOT_FOUND = 'auth/multi-factor-info-not-found',
+	INVALID_MULTI_FACTOR_SESSION = 'auth/invalid-multi-factor-session',
+	UNVERIFIED_EMAIL = 'auth/unverified-email',
+	UNSUPPORTED_FIRST_FACTOR = 'auth/unsupported-first-factor',
+	SECOND_FACTOR_ALREADY_ENROLLED = 'auth/second-factor-already-in-use',
+	MAXIMUM_SECOND_FACTOR_COUNT_EXCEEDED = 'auth/maximum-second-factor-count-exceeded',
+	CODE_EXPIRED = 'auth/code-expired',
 	INTERNAL_ERROR = 'auth/internal-error'
 }
 
@@ -255,10 +535,24 @@ export class FirekitAuthError extends Error {
 		this.name = 'FirekitAuthError';
 	}
 
+	/** Message overrides taking precedence over the built-in friendly messages */
+	private static messageOverrides: Partial<Record<AuthErrorCode | string, string>> = {};
+
+	/**
+	 * Overrides friendly messages, e.g. to localize them
+	 * @param {Partial<Record<AuthErrorCode, string>>} messages Messages by error code
+	 */
+	static setMessageOverrides(messages: Partial<Record<AuthErrorCode | string, string>>): void {
+		FirekitAuthError.messageOverrides = { ...messages };
+	}
+
 	/**
 	 * Get user-friendly error message
 	 */
 	getFriendlyMessage(): string {
+		const override = FirekitAuthError.messageOverrides[this.code];
+		if (override) return override;
+
 		switch (this.code) {
 			case AuthErrorCode.EMAIL_ALREADY_IN_USE:
 				return 'An account with this email already exists.';
@@ -268,12 +562,20 @@ export class FirekitAuthError extends Error {
 				return 'No account found with this email address.';
 			case AuthErrorCode.WRONG_PASSWORD:
 				return 'Incorrect password. Please try again.';
+			case AuthErrorCode.INVALID_CREDENTIAL:
+				return 'Incorrect email or password. Please try again.';
 			case AuthErrorCode.WEAK_PASSWORD:
 				return 'Password should be at least 6 characters long.';
+			case AuthErrorCode.PASSWORDS_DO_NOT_MATCH:
+				return 'Passwords do not match.';
 			case AuthErrorCode.TOO_MANY_REQUESTS:
 				return 'Too many failed attempts. Please try again later.';
 			case AuthErrorCode.POPUP_CLOSED:
 				return 'Sign-in was cancelled. Please try again.';
+			case AuthErrorCode.POPUP_BLOCKED:
+				return 'The sign-in popup was blocked. Please allow popups and try again.';
+			case AuthErrorCode.OPERATION_NOT_SUPPORTED:
+				return 'This sign-in method is not supported in this browser.';
 			case AuthErrorCode.NETWORK_REQUEST_FAILED:
 				return 'Network error. Please check your connection.';
 			case AuthErrorCode.USER_DISABLED:
@@ -292,10 +594,40 @@ export class FirekitAuthError extends Error {
 				return 'Please enter a valid phone number.';
 			case AuthErrorCode.MISSING_PHONE_NUMBER:
 				return 'Phone number is required.';
+			case AuthErrorCode.MISSING_VERIFICATION_CODE:
+				return 'Verification code is required.';
+			case AuthErrorCode.CAPTCHA_CHECK_FAILED:
+				return 'The reCAPTCHA check failed. Please try again.';
+			case AuthErrorCode.CODE_RESEND_COOLDOWN:
+				return 'Please wait before requesting a new code.';
 			case AuthErrorCode.QUOTA_EXCEEDED:
 				return 'SMS quota exceeded. Please try again later.';
 			case AuthErrorCode.APP_NOT_AUTHORIZED:
 				return 'This app is not authorized to use Firebase Authentication.';
+			case AuthErrorCode.CREDENTIAL_ALREADY_IN_USE:
+				return 'This sign-in method is already linked to another account.';
+			case AuthErrorCode.ACCOUNT_EXISTS_WITH_DIFFERENT_CREDENTIAL:
+				return 'An account already exists with this email. Sign in with your original method to link them.';
+			case AuthErrorCode.PROVIDER_ALREADY_LINKED:
+				return 'This sign-in method is already linked to your account.';
+			case AuthErrorCode.NO_SUCH_PROVIDER:
+				return 'This sign-in method is not linked to your account.';
+			case AuthErrorCode.MULTI_FACTOR_AUTH_REQUIRED:
+				return 'Additional verification is required to sign in.';
+			case AuthErrorCode.MULTI_FACTOR_INFO_NOT_FOUND:
+				return 'This verification method is not set up for your account.';
+			case AuthErrorCode.INVALID_MULTI_FACTOR_SESSION:
+				return 'Your verification session has expired. Please sign in again.';
+			case AuthErrorCode.UNVERIFIED_EMAIL:
+				return 'Please verify your email address before enabling two-step verification.';
+			case AuthErrorCode.UNSUPPORTED_FIRST_FACTOR:
+				return 'Two-step verification is not available for this sign-in method.';
+			case AuthErrorCode.SECOND_FACTOR_ALREADY_ENROLLED:
+				return 'This verification method is already set up.';
+			case AuthErrorCode.MAXIMUM_SECOND_FACTOR_COUNT_EXCEEDED:
+				return 'You have reached the maximum number of verification methods.';
+			case AuthErrorCode.CODE_EXPIRED:
+				return 'This verification code has expired. Please request a new one.';
 			case AuthErrorCode.INTERNAL_ERROR:
 				return 'An internal error occurred. Please try again.';
 			default:
@@ -316,3 +648,143 @@ export class FirekitAuthError extends Error {
 		return retryableCodes.includes(this.code as AuthErrorCode);
 	}
 }
+
+/**
+ * Error thrown when a credential belongs to another account.
+ * Carries what the UI needs to guide a merge: sign in with one of `signInMethods`,
+ * then link `pendingCredential` with `firekitAuth.linkWithCredential`.
+ */
+export class AccountLinkConflictError extends FirekitAuthError {
+	constructor(
+		code: AuthErrorCode | string,
+		message: string,
+		/** Credential that could not be used, to link after signing in to the existing account */
+		public pendingCredential: AuthCredential | null,
+		/** Email of the existing account, if known */
+		public email: string | null,
+		/** Sign-in methods of the existing account (empty with email enumeration protection) */
+		public signInMethods: string[],
+		originalError?: any
+	) {
+		super(code, message, originalError);
+		this.name = 'AccountLinkConflictError';
+	}
+}
+
+/**
+ * Default path of the session endpoint handled by `firekitHandle`
+ */
+export const DEFAULT_SESSION_ENDPOINT = '/api/firekit/session';
+
+/**
+ * Default session cookie name. `__session` is the only cookie forwarded by Firebase Hosting.
+ */
+export const DEFAULT_SESSION_COOKIE = '__session';
+
+/**
+ * Verifies a session cookie value and returns the signed-in user, or null if invalid
+ */
+export type SessionVerifier = (session: string) => Promise<UserProfile | null>;
+
+/**
+ * Exchanges a Firebase ID token for a session cookie value,
+ * e.g. with the Admin SDK `createSessionCookie`
+ */
+export type SessionCreator = (idToken: string, maxAge: number) => Promise<string>;
+
+/**
+ * Options for the `firekitHandle` server hook
+ */
+export interface FirekitHandleOptions {
+	/** Verifies the session cookie, see `createIdTokenVerifier` */
+	verifier: SessionVerifier;
+	/** Exchanges ID tokens for session cookies (default: the ID token is stored as-is) */
+	createSession?: SessionCreator;
+	/** Session cookie name (default: '__session') */
+	cookieName?: string;
+	/** Session endpoint path (default: '/api/firekit/session') */
+	endpoint?: string;
+	/**
+	 * Session cookie lifetime in seconds (default: 5 days).
+	 * Without `createSession` the cookie expires with the ID token at the latest.
+	 */
+	maxAge?: number;
+}
+
+/**
+ * Options for the built-in Firebase ID token verifier
+ */
+export interface IdTokenVerifierOptions {
+	/** Firebase project ID the tokens must be issued for */
+	projectId: string;
+	/** Accept unsigned tokens issued by the Auth emulator in development (default: false) */
+	emulator?: boolean;
+}
+
+/**
+ * Options for syncing the client auth state to the session endpoint
+ */
+export interface SessionSyncOptions {
+	/** Session endpoint path (default: '/api/firekit/session') */
+	endpoint?: string;
+}
+
+/**
+ * Options for completing an email link sign-in
+ */
+export interface EmailLinkOptions {
+	/**
+	 * Asks for the email when the link is opened on a device that did not send it.
+	 * Return null to cancel.
+	 */
+	promptForEmail?: () => string | null | Promise<string | null>;
+	/**
+	 * Link the email to the signed-in user instead of signing in
+	 * (default: true for anonymous users)
+	 */
+	linkToCurrentUser?: boolean;
+}
+
+/**
+ * Options for completing a specific email sign-in link
+ */
+export interface EmailLinkCompletionOptions extends EmailLinkOptions {
+	/** Sign-in link (default: the current URL) */
+	url?: string;
+	/** Email the link was sent to (default: the email stored by `sendSignInLink`) */
+	email?: string;
+}
+
+/**
+ * Email action of an action link, from its `mode` parameter
+ */
+export type AuthActionMode =
+	'verifyEmail' | 'resetPassword' | 'recoverEmail' | 'verifyAndChangeEmail';
+
+/**
+ * Result of handling an email action link, describing what to show
+ */
+export interface AuthActionResult {
+	/** Handled action */
+	mode: AuthActionMode;
+	/** Verified, new, restored or password reset email address */
+	email: string | null;
+	/** Email address before the change, for `verifyAndChangeEmail` and `recoverEmail` */
+	previousEmail: string | null;
+	/** Action code, to confirm a password reset with */
+	code: string;
+	/** Tenant of the user, to confirm a password reset with */
+	tenantId: string | null;
+	/** Whether the action was applied; password resets still need the new password */
+	applied: boolean;
+	/** Where to send the user afterwards, if the link has a continue URL */
+	continueUrl: string | null;
+}
+
+/**
+ * Shape of `event.locals` populated by `firekitHandle`.
+ * Extend it from `App.Locals` in your `app.d.ts`.
+ */
+export interface FirekitLocals {
+	user: UserProfile | null;
+}
@@ -5,6 +5,8 @@
  */
 
 import type { DocumentData, QueryConstraint, CollectionReference, Query } from 'firebase/firestore';
+import type { FirekitAppOptions } from './firebase.js';
+import type { SerializedCollection } from './server.js';
 
 /**
  * Collection state interface containing all reactive properties
@@ -29,7 +31,7 @@ export interface CollectionState<T> {
 /**
  * Collection configuration options
  */
-export interface CollectionOptions {
+export interface CollectionOptions extends FirekitAppOptions {
 	/** Enable real-time updates (default: true) */
 	realtime?: boolean;
 	/** Include metadata changes in updates (default: false) */
@@ -48,6 +50,8 @@ export interface CollectionOptions {
 	cache?: CacheConfig;
 	/** Error handling configuration */
 	errorHandling?: ErrorHandlingConfig;
+	/** Collection read on the server with `getCollectionServer`, used as initial state */
+	initial?: SerializedCollection;
 }
 
 /**
@@ -208,6 +212,9 @@ export enum CollectionErrorCode {
 	DEADLINE_EXCEEDED = 'collection/deadline-exceeded',
 	CANCELLED = 'collection/cancelled',
 
+	// App Check errors
+	APP_CHECK_FAILED = 'collection/app-check-failed',
+
 	// Network errors
 	NETWORK_ERROR = 'collection/network-error',
 	OFFLINE = 'collection/offline',
@@ -285,6 +292,8 @@ export class CollectionError extends Error {
 				return 'Too many requests. Please wait a moment and try again.';
 			case CollectionErrorCode.CACHE_ERROR:
 				return 'Cache error occurred. Data will be refreshed.';
+			case CollectionErrorCode.APP_CHECK_FAILED:
+				return 'This app could not be verified. Please refresh the page and try again.';
 			default:
 				return this.message || 'An unexpected error occurred.';
 		}
@@ -4,6 +4,9 @@
  * @version 1.0.0
  */
 
+import type { FirekitAppOptions } from './firebase.js';
+import type { SerializedDocument } from './server.js';
+
 /**
  * Document state interface containing all reactive properties
  */
@@ -23,7 +26,7 @@ export interface DocumentState<T> {
 /**
  * Configuration options for document subscriptions
  */
-export interface DocumentOptions {
+export interface DocumentOptions extends FirekitAppOptions {
 	/** Enable real-time updates (default: true) */
 	realtime?: boolean;
 	/** Include metadata changes in updates (default: false) */
@@ -41,6 +44,8 @@ export interface DocumentOptions {
 		enabled: boolean;
 		maxAge: number;
 	};
+	/** Document read on the server with `getDocServer`, used as initial state */
+	initial?: SerializedDocument;
 }
 
 /**
@@ -173,6 +178,7 @@ export enum DocumentErrorCode {
 	// Permission errors
 	PERMISSION_DENIED = 'firestore/permission-denied',
 	UNAUTHENTICATED = 'firestore/unauthenticated',
+	APP_CHECK_FAILED = 'firestore/app-check-failed',
 
 	// Document errors
 	NOT_FOUND = 'firestore/not-found',
@@ -244,6 +250,8 @@ export class DocumentError extends Error {
 				return 'A document with this ID already exists.';
 			case DocumentErrorCode.CACHE_EXPIRED:
 				return 'Cached data has expired. Refreshing...';
+			case DocumentErrorCode.APP_CHECK_FAILED:
+				return 'This app could not be verified. Please refresh the page and try again.';
 			default:
 				return this.message || 'An unexpected error occurred.';
 		}
@@ -5,12 +5,141 @@ import type { Functions } from 'firebase/functions';
 import type { Database } from 'firebase/database';
 import type { FirebaseStorage } from 'firebase/storage';
 import type { Analytics } from 'firebase/analytics';
+import type { AppCheck, AppCheckToken } from 'firebase/app-check';
 
 /**
  * Type definition for required Firebase environment variables
  */
 export type FirebaseEnvVars = FirebaseOptions;
 
+/**
+ * Name of the default Firebase app, matching the Firebase SDK default
+ */
+export const DEFAULT_APP_NAME = '[DEFAULT]';
+
+/**
+ * Function that lazily provides Firebase options for an app
+ */
+export type FirebaseOptionsLoader = () => FirebaseOptions;
+
+/**
+ * Firebase options or a loader returning them
+ */
+export type FirebaseOptionsSource = FirebaseOptions | FirebaseOptionsLoader;
+
+/**
+ * Host and port of a single Local Emulator Suite service
+ */
+export interface EmulatorEndpoint {
+	/** Emulator host (default: the shared `EmulatorConfig.host`) */
+	host?: string;
+	/** Emulator port */
+	port: number;
+}
+
+/**
+ * Local Emulator Suite configuration, one endpoint per Firebase service
+ */
+export interface EmulatorConfig {
+	/** Default host for every emulator (default: '127.0.0.1') */
+	host?: string;
+	/** Firestore emulator */
+	firestore?: EmulatorEndpoint;
+	/** Auth emulator */
+	auth?: EmulatorEndpoint;
+	/** Realtime Database emulator */
+	database?: EmulatorEndpoint;
+	/** Storage emulator */
+	storage?: EmulatorEndpoint;
+	/** Cloud Functions emulator */
+	functions?: EmulatorEndpoint;
+}
+
+/**
+ * Firestore local cache strategy.
+ * `persistent` stores data in IndexedDB, `memory` keeps it only for the page lifetime.
+ */
+export type FirestoreCacheKind = 'persistent' | 'memory';
+
+/**
+ * Tab manager used by the persistent Firestore cache
+ */
+export type FirestoreTabManagerKind = 'multiple' | 'single';
+
+/**
+ * Firestore settings applied when FirebaseService initializes Firestore
+ */
+export interface FirestoreSettingsOptions {
+	/** Local cache strategy (default: 'persistent') */
+	cache?: FirestoreCacheKind;
+	/**
+	 * Cache size in bytes (default: unlimited for the persistent cache).
+	 * For the memory cache a size enables LRU garbage collection.
+	 */
+	cacheSizeBytes?: number;
+	/** Tab manager for the persistent cache (default: 'multiple') */
+	tabManager?: FirestoreTabManagerKind;
+	/** Automatically create client-side indexes for the persistent cache (default: true) */
+	autoIndexing?: boolean;
+	/** Skip `undefined` properties instead of throwing on writes */
+	ignoreUndefinedProperties?: boolean;
+	/** Detect proxies that require long-polling instead of WebChannel streaming */
+	experimentalAutoDetectLongPolling?: boolean;
+	/** Always use long-polling */
+	experimentalForceLongPolling?: boolean;
+}
+
+/**
+ * App Check attestation provider
+ */
+export type AppCheckProviderKind = 'recaptchaV3' | 'recaptchaEnterprise' | 'custom';
+
+/**
+ * App Check configuration
+ */
+export interface AppCheckConfig {
+	/** Attestation provider */
+	provider: AppCheckProviderKind;
+	/** reCAPTCHA site key (required for reCAPTCHA providers) */
+	siteKey?: string;
+	/** Token factory (required for the custom provider) */
+	getToken?: () => Promise<AppCheckToken>;
+	/** Automatically refresh tokens before they expire (default: true) */
+	isTokenAutoRefreshEnabled?: boolean;
+	/**
+	 * Debug token for local development and CI.
+	 * `true` makes the SDK generate one and log it to the console.
+	 */
+	debugToken?: string | boolean;
+}
+
+/**
+ * App Check token status reported by firekitAppCheck
+ */
+export type AppCheckTokenStatus = 'disabled' | 'pending' | 'valid' | 'expired' | 'error';
+
+/**
+ * Settings applied by FirebaseService while lazily initializing service instances
+ */
+export interface FirekitServiceSettings {
+	/** Local Emulator Suite configuration */
+	emulators?: EmulatorConfig;
+	/** Firestore cache and transport settings */
+	firestore?: FirestoreSettingsOptions;
+	/** App Check configuration, initialized right after the app */
+	appCheck?: AppCheckConfig;
+}
+
+/**
+ * Options shared by services that can target a named Firebase app
+ */
+export interface FirekitAppOptions {
+	/** Name of the Firebase app to use (default: the default app) */
+	app?: string;
+	/** Firebase instances to use instead of the app's own (default: those provided by <FirebaseApp>) */
+	context?: FirebaseContext;
+}
+
 /**
  * Type guard to check if an object contains all required Firebase environment variables
  */
@@ -36,6 +165,20 @@ export enum FirebaseServiceStatus {
 	ERROR = 'ERROR'
 }
 
+/**
+ * Firebase services managed by FirebaseService
+ */
+export type FirebaseServiceKind =
+	'firestore' | 'auth' | 'functions' | 'database' | 'storage' | 'analytics' | 'appCheck';
+
+/**
+ * Initialization status of the Firebase app or a single service
+ */
+export interface FirebaseServiceStatusEntry {
+	status: FirebaseServiceStatus;
+	error: Error | null;
+}
+
 /**
  * Error class for Firebase service initialization failures
  */
@@ -49,10 +192,25 @@ export class FirebaseServiceError extends Error {
 	}
 }
 
+/**
+ * Firebase instances provided to a component subtree by <FirebaseApp>
+ */
+export interface FirebaseContext {
+	app?: FirebaseApp;
+	auth?: Auth;
+	firestore?: Firestore;
+	storage?: FirebaseStorage;
+	database?: Database;
+	analytics?: Analytics;
+	functions?: Functions;
+	appCheck?: AppCheck;
+}
+
 /**
  * Interface for Firebase service instance
  */
 export interface FirebaseServiceInstance {
+	name: string;
 	firebaseApp: FirebaseApp | null;
 	db: Firestore | null;
 	auth: Auth | null;
@@ -60,6 +218,7 @@ export interface FirebaseServiceInstance {
 	database: Database | null;
 	storage: FirebaseStorage | null;
 	analytics: Analytics | null;
+	appCheck: AppCheck | null;
 	status: FirebaseServiceStatus;
 	initializationError: Error | null;
 	isBrowser: boolean;
@@ -0,0 +1,160 @@
+/**
+ * @fileoverview Cloud Functions types and interfaces for FirekitCallable
+ * @module FunctionsTypes
+ * @version 1.0.0
+ */
+
+import type { FirekitAppOptions } from './firebase.js';
+import type { RetryConfig } from './mutations.js';
+
+/**
+ * Callable function state interface containing all reactive properties
+ */
+export interface CallableState<Res, Chunk = unknown> {
+	/** Result of the last successful call */
+	data: Res | null;
+	/** Whether a call is in progress */
+	loading: boolean;
+	/** Error of the last call */
+	error: FunctionsError | null;
+	/** Chunks received from the current streaming call */
+	chunks: Chunk[];
+}
+
+/**
+ * Configuration options for callable functions
+ */
+export interface CallableOptions<Chunk = unknown> extends FirekitAppOptions {
+	/** Time in milliseconds after which a call is cancelled (default: 70000) */
+	timeout?: number;
+	/** Retry configuration for failed calls */
+	retry?: Partial<RetryConfig<FunctionsError>>;
+	/** Share one request between identical concurrent calls (default: true) */
+	dedupe?: boolean;
+	/** Stream partial responses from functions using `sendChunk` (default: false) */
+	stream?: boolean;
+	/** Called for every streamed chunk */
+	onChunk?: (chunk: Chunk) => void;
+	/** Use limited-use App Check tokens for replay protection */
+	limitedUseAppCheckTokens?: boolean;
+}
+
+/**
+ * Options for a single call
+ */
+export interface CallOptions {
+	/** Signal used to cancel the call */
+	signal?: AbortSignal;
+}
+
+/**
+ * Functions error codes enum
+ */
+export enum FunctionsErrorCode {
+	// Firebase errors
+	CANCELLED = 'functions/cancelled',
+	INVALID_ARGUMENT = 'functions/invalid-argument',
+	DEADLINE_EXCEEDED = 'functions/deadline-exceeded',
+	NOT_FOUND = 'functions/not-found',
+	ALREADY_EXISTS = 'functions/already-exists',
+	PERMISSION_DENIED = 'functions/permission-denied',
+	RESOURCE_EXHAUSTED = 'functions/resource-exhausted',
+	FAILED_PRECONDITION = 'functions/failed-precondition',
+	ABORTED = 'functions/aborted',
+	OUT_OF_RANGE = 'functions/out-of-range',
+	UNIMPLEMENTED = 'functions/unimplemented',
+	INTERNAL_ERROR = 'functions/internal',
+	UNAVAILABLE = 'functions/unavailable',
+	DATA_LOSS = 'functions/data-loss',
+	UNAUTHENTICATED = 'functions/unauthenticated',
+
+	// Service errors
+	FUNCTIONS_UNAVAILABLE = 'functions/functions-unavailable',
+	RETRY_EXHAUSTED = 'functions/retry-exhausted',
+
+	// Unknown
+	UNKNOWN = 'functions/unknown'
+}
+
+/**
+ * Custom Cloud Functions error class
+ */
+export class FunctionsError extends Error {
+	constructor(
+		public code: FunctionsErrorCode,
+		message: string,
+		public functionName?: string,
+		public details?: unknown,
+		public originalError?: any,
+		public context?: Record<string, any>
+	) {
+		super(message);
+		this.name = 'FunctionsError';
+	}
+
+	/**
+	 * Get user-friendly error message
+	 */
+	getFriendlyMessage(): string {
+		switch (this.code) {
+			case FunctionsErrorCode.PERMISSION_DENIED:
+				return 'You do not have permission to perform this operation.';
+			case FunctionsErrorCode.UNAUTHENTICATED:
+				return 'Please sign in to perform this operation.';
+			case FunctionsErrorCode.INVALID_ARGUMENT:
+				return 'The request contains invalid data.';
+			case FunctionsErrorCode.NOT_FOUND:
+				return 'The requested function was not found.';
+			case FunctionsErrorCode.DEADLINE_EXCEEDED:
+				return 'The request timed out. Please try again.';
+			case FunctionsErrorCode.RESOURCE_EXHAUSTED:
+				return 'Usage quota exceeded. Please try again later.';
+			case FunctionsErrorCode.UNAVAILABLE:
+				return 'Service is temporarily unavailable. Please try again later.';
+			case FunctionsErrorCode.CANCELLED:
+				return 'The request was cancelled.';
+			default:
+				return this.message || 'An unexpected error occurred.';
+		}
+	}
+
+	/**
+	 * Check if error is retryable
+	 */
+	isRetryable(): boolean {
+		const retryableCodes = [
+			FunctionsErrorCode.DEADLINE_EXCEEDED,
+			FunctionsErrorCode.UNAVAILABLE,
+			FunctionsErrorCode.INTERNAL_ERROR,
+			FunctionsErrorCode.ABORTED,
+			FunctionsErrorCode.RESOURCE_EXHAUSTED
+		];
+		return retryableCodes.includes(this.code);
+	}
+
+	/**
+	 * Check if error requires user authentication
+	 */
+	requiresAuth(): boolean {
+		const authCodes = [FunctionsErrorCode.UNAUTHENTICATED, FunctionsErrorCode.PERMISSION_DENIED];
+		return authCodes.includes(this.code);
+	}
+
+	/**
+	 * Convert to JSON for logging/debugging
+	 */
+	toJSON(): Record<string, any> {
+		return {
+			name: this.name,
+			code: this.code,
+			message: this.message,
+			friendlyMessage: this.getFriendlyMessage(),
+			functionName: this.functionName,
+			details: this.details,
+			isRetryable: this.isRetryable(),
+			requiresAuth: this.requiresAuth(),
+			context: this.context,
+			timestamp: new Date().toISOString()
+		};
+	}
+}
@@ -76,6 +76,24 @@ export type {
 	MutationAnalytics
 } from './mutations.js';
 
+// Server Types
+export type {
+	SerializedTimestamp,
+	SerializedGeoPoint,
+	SerializedDocumentReference,
+	SerializedBytes,
+	SerializedFirestoreValue,
+	Serialized,
+	SerializedDocument,
+	SerializedCollection,
+	ServerDocumentOptions,
+	ServerCollectionOptions
+} from './server.js';
+
+// Functions Types
+export type { CallableState, CallableOptions, CallOptions } from './functions.js';
+export { FunctionsErrorCode, FunctionsError } from './functions.js';
+
 // Presence Types
 export type {
 	GeolocationConfig,
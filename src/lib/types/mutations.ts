@@ -6,6 +6,7 @@
 
 import type { FieldValue, Timestamp } from 'firebase/firestore';
 import { CacheSource } from './document.js';
+import type { FirekitAppOptions } from './firebase.js';
 
 /**
  * Response structure for document mutations
@@ -44,7 +45,7 @@ export interface MutationMetadata {
 /**
  * Options for document mutations
  */
-export interface MutationOptions {
+export interface MutationOptions extends FirekitAppOptions {
 	/** Whether to include automatic timestamps */
 	timestamps?: boolean;
 	/** Whether to merge data in set operations */
@@ -80,7 +81,7 @@ export interface ValidationResult {
 /**
  * Retry configuration for failed operations
  */
-export interface RetryConfig {
+export interface RetryConfig<E = MutationError> {
 	/** Whether retry is enabled */
 	enabled: boolean;
 	/** Maximum number of retry attempts */
@@ -92,7 +93,7 @@ export interface RetryConfig {
 	/** Maximum delay between retries */
 	maxDelay?: number;
 	/** Custom retry condition function */
-	shouldRetry?: (error: MutationError, attempt: number) => boolean;
+	shouldRetry?: (error: E, attempt: number) => boolean;
 }
 
 /**
@@ -241,7 +242,7 @@ export interface ExistenceCheckResult {
 /**
  * Bulk mutation configuration
  */
-export interface BulkMutationConfig {
+export interface BulkMutationConfig extends FirekitAppOptions {
 	/** Batch size for bulk operations */
 	batchSize?: number;
 	/** Whether to run operations in parallel */
@@ -289,6 +290,9 @@ export enum MutationErrorCode {
 	RESOURCE_EXHAUSTED = 'mutations/resource-exhausted',
 	CANCELLED = 'mutations/cancelled',
 
+	// App Check errors
+	APP_CHECK_FAILED = 'mutations/app-check-failed',
+
 	// Validation errors
 	VALIDATION_FAILED = 'mutations/validation-failed',
 	REQUIRED_FIELD_MISSING = 'mutations/required-field-missing',
@@ -365,6 +369,8 @@ export class MutationError extends Error {
 				return 'Please sign in to perform this operation.';
 			case MutationErrorCode.OFFLINE:
 				return 'You are offline. Changes will be saved when connection is restored.';
+			case MutationErrorCode.APP_CHECK_FAILED:
+				return 'This app could not be verified. Please refresh the page and try again.';
 			default:
 				return this.message || 'An unexpected error occurred.';
 		}
@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Types for server-side Firestore reads and hydration
+ * @module ServerTypes
+ * @version 1.0.0
+ */
+
+import type {
+	Bytes,
+	DocumentData,
+	DocumentReference,
+	GeoPoint,
+	Timestamp
+} from 'firebase/firestore';
+import type { FirekitAppOptions } from './firebase.js';
+import type { QueryBuilder } from './collection.js';
+
+/**
+ * Serialized Firestore Timestamp
+ */
+export interface SerializedTimestamp {
+	__firekit: 'timestamp';
+	seconds: number;
+	nanoseconds: number;
+}
+
+/**
+ * Serialized Firestore GeoPoint
+ */
+export interface SerializedGeoPoint {
+	__firekit: 'geopoint';
+	latitude: number;
+	longitude: number;
+}
+
+/**
+ * Serialized Firestore DocumentReference
+ */
+export interface SerializedDocumentReference {
+	__firekit: 'reference';
+	path: string;
+}
+
+/**
+ * Serialized Firestore Bytes
+ */
+export interface SerializedBytes {
+	__firekit: 'bytes';
+	base64: string;
+}
+
+/**
+ * Any serialized Firestore value type
+ */
+export type SerializedFirestoreValue =
+	SerializedTimestamp | SerializedGeoPoint | SerializedDocumentReference | SerializedBytes;
+
+/**
+ * JSON-safe representation of Firestore data.
+ * Timestamps, GeoPoints, references and bytes are replaced by tagged plain objects.
+ */
+export type Serialized<T> = T extends Timestamp
+	? SerializedTimestamp
+	: T extends GeoPoint
+		? SerializedGeoPoint
+		: T extends DocumentReference
+			? SerializedDocumentReference
+			: T extends Bytes
+				? SerializedBytes
+				: T extends Array<infer U>
+					? Serialized<U>[]
+					: T extends object
+						? { [K in keyof T]: Serialized<T[K]> }
+						: T;
+
+/**
+ * Document read on the server, ready to be returned from a load function
+ */
+export interface SerializedDocument<T = DocumentData> {
+	/** Document ID */
+	id: string;
+	/** Full document path */
+	path: string;
+	/** Whether the document exists */
+	exists: boolean;
+	/** Serialized document data including its ID */
+	data: Serialized<T & { id: string }> | null;
+}
+
+/**
+ * Collection read on the server, ready to be returned from a load function
+ */
+export interface SerializedCollection<T = DocumentData> {
+	/** Collection path */
+	path: string;
+	/** Serialized documents including their IDs */
+	data: Serialized<T & { id: string }>[];
+	/** Number of documents */
+	size: number;
+}
+
+/**
+ * Options for server-side document reads
+ */
+export interface ServerDocumentOptions extends FirekitAppOptions {}
+
+/**
+ * Options for server-side collection reads
+ */
+export interface ServerCollectionOptions<T = DocumentData> extends FirekitAppOptions {
+	/** Query builder, or a function configuring a fresh builder */
+	query?: QueryBuilder<T> | ((builder: QueryBuilder<T>) => QueryBuilder<T>);
+}
@@ -0,0 +1,66 @@
+import type { ClaimRequirements, UserClaims } from '../types/auth.js';
+
+/** Standard ID token claims that are not custom claims */
+const RESERVED_CLAIMS = new Set([
+	'iss',
+	'aud',
+	'auth_time',
+	'user_id',
+	'sub',
+	'iat',
+	'exp',
+	'email',
+	'email_verified',
+	'phone_number',
+	'name',
+	'picture',
+	'firebase'
+]);
+
+/**
+ * Extracts the custom claims from decoded ID token claims
+ * @param {Record<string, any>} claims Decoded ID token claims
+ * @returns {UserClaims} Claims other than the standard JWT and Firebase claims
+ */
+export function getCustomClaims(claims: Record<string, any>): UserClaims {
+	return Object.fromEntries(Object.entries(claims).filter(([key]) => !RESERVED_CLAIMS.has(key)));
+}
+
+/**
+ * Checks whether claims grant a role, set either as a `role` string,
+ * within a `roles` array or as a boolean flag such as `admin: true`
+ * @param {UserClaims} claims Custom claims
+ * @param {string} role Role to check
+ * @returns {boolean} Whether the claims grant the role
+ */
+export function hasRole(claims: UserClaims, role: string): boolean {
+	if (claims.role === role) return true;
+	if (Array.isArray(claims.roles) && claims.roles.includes(role)) return true;
+	return !RESERVED_CLAIMS.has(role) && claims[role] === true;
+}
+
+/**
+ * Checks whether claims contain a claim, optionally with a given value
+ * @param {UserClaims} claims Custom claims
+ * @param {string} key Claim name
+ * @param {any} [value] Expected value; any value other than null or undefined if omitted
+ * @returns {boolean} Whether the claim is present
+ */
+export function hasClaim(claims: UserClaims, key: string, value?: any): boolean {
+	if (value === undefined) return claims[key] != null;
+	return claims[key] === value;
+}
+
+/**
+ * Checks whether claims satisfy guard requirements
+ * @param {UserClaims} claims Custom claims
+ * @param {ClaimRequirements} requirements At least one of `roles` and all of `requiredClaims`
+ * @returns {boolean} Whether the requirements are met
+ */
+export function matchesClaims(claims: UserClaims, requirements: ClaimRequirements): boolean {
+	const { roles = [], requiredClaims = {} } = requirements;
+
+	if (roles.length > 0 && !roles.some((role) => hasRole(claims, role))) return false;
+
+	return Object.entries(requiredClaims).every(([key, value]) => hasClaim(claims, key, value));
+}
@@ -1,4 +1,13 @@
 import { FirekitAuthError, AuthErrorCode } from '../types/auth.js';
+import { firekitAppCheck } from '../services/app-check.svelte.js';
+
+/** Firestore and Storage error codes App Check rejections surface as */
+const APP_CHECK_REJECTION_CODES = new Set([
+	'permission-denied',
+	'unauthenticated',
+	'storage/unauthorized',
+	'storage/unauthenticated'
+]);
 
 /**
  * Creates a standardized FirekitAuthError with context
@@ -40,3 +49,21 @@ export function handleAuthError(error: any): never {
 	// Use the existing getFriendlyMessage method from FirekitAuthError
 	throw new FirekitAuthError(code, firekitError.getFriendlyMessage(), error);
 }
+
+/**
+ * Checks if an error was caused by a missing or rejected App Check token.
+ * Firestore and Storage report rejections as permission errors, which count as App Check
+ * failures when their message names App Check or the app has no valid token.
+ * @param {any} error Original error object
+ * @param {string} [appName] Firebase app the failed call used, defaults to the default app
+ * @returns {boolean} True if App Check attestation failed
+ */
+export function isAppCheckError(error: any, appName?: string): boolean {
+	const code = typeof error?.code === 'string' ? error.code : '';
+	if (code.startsWith('appCheck/')) return true;
+	if (!APP_CHECK_REJECTION_CODES.has(code)) return false;
+	if (/app ?check/i.test(error?.message ?? '')) return true;
+
+	const status = firekitAppCheck.forApp(appName).status;
+	return status === 'error' || status === 'expired';
+}
@@ -1,30 +1,89 @@
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import type { Firestore } from 'firebase/firestore';
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import type { DocumentReference, Firestore } from 'firebase/firestore';
 import type { User } from 'firebase/auth';
+import type { AuthConfig } from '../types/auth.js';
+
+/** Default Firestore collection path for user documents */
+export const DEFAULT_USERS_COLLECTION = 'users';
+
+/**
+ * Maps a Firebase user to the default user document fields
+ * @param {User} user Firebase user object
+ * @returns {Record<string, any>} User document fields
+ *
+ * @example
+ * ```typescript
+ * // Keep the default shape without provider PII
+ * firekitAuth.configure({
+ *   userDocumentMapper: (user) => {
+ *     const { providerData, ...data } = mapUserToDocument(user);
+ *     return data;
+ *   }
+ * });
+ * ```
+ */
+export function mapUserToDocument(user: User): Record<string, any> {
+	return {
+		uid: user.uid,
+		email: user.email,
+		emailVerified: user.emailVerified,
+		displayName: user.displayName,
+		photoURL: user.photoURL,
+		phoneNumber: user.phoneNumber,
+		isAnonymous: user.isAnonymous,
+		providerId: user.providerId,
+		providerData: user.providerData,
+		tenantId: user.tenantId,
+		metadata: {
+			creationTime: user.metadata.creationTime,
+			lastSignInTime: user.metadata.lastSignInTime
+		}
+	};
+}
+
+/**
+ * Gets the reference of a user document in the configured users collection,
+ * prefixed with `tenants/{tenantId}` for users of an Identity Platform tenant
+ * @param {Firestore} firestore Firestore instance
+ * @param {string} uid User ID
+ * @param {AuthConfig} [config] Auth configuration
+ * @param {string | null} [tenantId] Tenant of the user
+ * @returns {DocumentReference} User document reference
+ */
+export function getUserDocRef(
+	firestore: Firestore,
+	uid: string,
+	config: AuthConfig = {},
+	tenantId: string | null = null
+): DocumentReference {
+	const collectionPath = config.usersCollectionPath ?? DEFAULT_USERS_COLLECTION;
+	return tenantId
+		? doc(firestore, 'tenants', tenantId, collectionPath, uid)
+		: doc(firestore, collectionPath, uid);
+}
 
 /**
  * Updates user data in Firestore with comprehensive profile information
  * @param {Firestore} firestore Firestore instance
  * @param {User} user Firebase user object
+ * @param {AuthConfig} [config] Auth configuration controlling the collection, fields and write mode
  * @returns {Promise<void>} Promise that resolves when update completes
  */
-export async function updateUserInFirestore(firestore: Firestore, user: User): Promise<void> {
+export async function updateUserInFirestore(
+	firestore: Firestore,
+	user: User,
+	config: AuthConfig = {}
+): Promise<void> {
+	if (config.enableFirestoreSync === false) return;
+
 	try {
-		const userRef = doc(firestore, 'users', user.uid);
+		const userRef = getUserDocRef(firestore, user.uid, config, user.tenantId);
+
+		if (config.syncOnCreateOnly && (await getDoc(userRef)).exists()) return;
+
+		const mapUser = config.userDocumentMapper ?? mapUserToDocument;
 		const userData = {
-			uid: user.uid,
-			email: user.email,
-			emailVerified: user.emailVerified,
-			displayName: user.displayName,
-			photoURL: user.photoURL,
-			phoneNumber: user.phoneNumber,
-			isAnonymous: user.isAnonymous,
-			providerId: user.providerId,
-			providerData: user.providerData,
-			metadata: {
-				creationTime: user.metadata.creationTime,
-				lastSignInTime: user.metadata.lastSignInTime
-			},
+			...mapUser(user),
 			lastUpdated: serverTimestamp()
 		};
 		await setDoc(userRef, userData, { merge: true });
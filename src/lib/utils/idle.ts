@@ -0,0 +1,137 @@
+/** DOM events counted as user activity by default */
+export const DEFAULT_ACTIVITY_EVENTS = [
+	'pointerdown',
+	'pointermove',
+	'keydown',
+	'wheel',
+	'scroll',
+	'touchstart'
+];
+
+/** Minimum milliseconds between activity broadcasts to other tabs */
+const ACTIVITY_BROADCAST_INTERVAL = 5000;
+
+/**
+ * Idle timer options
+ */
+export interface IdleTimerOptions {
+	/** Milliseconds of inactivity before timing out */
+	timeout: number;
+	/** Milliseconds before the timeout to warn */
+	warning: number;
+	/** BroadcastChannel name shared by the tabs to coordinate */
+	channelName: string;
+	/** DOM events counted as activity */
+	activityEvents?: string[];
+	/** Called when the warning period starts */
+	onWarning: (expiresAt: Date) => void;
+	/** Called when activity ends the warning period */
+	onReset: () => void;
+	/** Called once when the timer times out, in this or another tab */
+	onTimeout: () => void;
+}
+
+/**
+ * Running idle timer
+ */
+export interface IdleTimer {
+	/** Records activity, e.g. when the user confirms they are still there */
+	reset: () => void;
+	/** Stops tracking activity */
+	stop: () => void;
+}
+
+/**
+ * Creates a timer tracking user activity across all tabs of the origin.
+ * Activity in any tab keeps every tab alive; a timeout in one tab times out all of them.
+ * @param {IdleTimerOptions} options Timer options
+ * @returns {IdleTimer} Running idle timer
+ */
+export function createIdleTimer(options: IdleTimerOptions): IdleTimer {
+	const activityEvents = options.activityEvents ?? DEFAULT_ACTIVITY_EVENTS;
+	const channel =
+		typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(options.channelName) : null;
+
+	let lastActivity = Date.now();
+	let lastBroadcast = 0;
+	let warned = false;
+	let stopped = false;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+
+	// Re-evaluates the state whenever the next deadline passes or activity ends a warning
+	function schedule(): void {
+		if (timer) clearTimeout(timer);
+		if (stopped) return;
+
+		const now = Date.now();
+		const expiresAt = lastActivity + options.timeout;
+		const warnAt = expiresAt - options.warning;
+
+		if (now >= expiresAt) {
+			channel?.postMessage({ type: 'timeout' });
+			timeOut();
+		} else if (now >= warnAt) {
+			if (!warned) {
+				warned = true;
+				options.onWarning(new Date(expiresAt));
+			}
+			timer = setTimeout(schedule, expiresAt - now);
+		} else {
+			if (warned) {
+				warned = false;
+				options.onReset();
+			}
+			timer = setTimeout(schedule, warnAt - now);
+		}
+	}
+
+	function recordActivity(at: number): void {
+		if (at <= lastActivity) return;
+		lastActivity = at;
+		// Otherwise the pending timer picks the activity up when it fires
+		if (warned) schedule();
+	}
+
+	function handleActivity(): void {
+		const now = Date.now();
+		const wasWarned = warned;
+		recordActivity(now);
+
+		if (wasWarned || now - lastBroadcast >= ACTIVITY_BROADCAST_INTERVAL) {
+			lastBroadcast = now;
+			channel?.postMessage({ type: 'activity', at: now });
+		}
+	}
+
+	function handleMessage(event: MessageEvent): void {
+		if (event.data?.type === 'activity') {
+			recordActivity(event.data.at);
+		} else if (event.data?.type === 'timeout') {
+			timeOut();
+		}
+	}
+
+	function timeOut(): void {
+		if (stopped) return;
+		stop();
+		options.onTimeout();
+	}
+
+	function stop(): void {
+		stopped = true;
+		if (timer) clearTimeout(timer);
+		for (const eventName of activityEvents) {
+			window.removeEventListener(eventName, handleActivity);
+		}
+		channel?.removeEventListener('message', handleMessage);
+		channel?.close();
+	}
+
+	for (const eventName of activityEvents) {
+		window.addEventListener(eventName, handleActivity, { passive: true });
+	}
+	channel?.addEventListener('message', handleMessage);
+	schedule();
+
+	return { reset: handleActivity, stop };
+}
@@ -2,10 +2,44 @@
 export { mapFirebaseUserToProfile } from './user.js';
 
 // Firestore utilities
-export { updateUserInFirestore } from './firestore.js';
+export {
+	DEFAULT_USERS_COLLECTION,
+	mapUserToDocument,
+	getUserDocRef,
+	updateUserInFirestore
+} from './firestore.js';
+
+// Claims utilities
+export { getCustomClaims, hasRole, hasClaim, matchesClaims } from './claims.js';
+
+// Form validation utilities
+export { MIN_PASSWORD_LENGTH, validateCredentials, type CredentialsInput } from './validation.js';
 
 // Error handling utilities
-export { createAuthError, validateCurrentUser, handleAuthError } from './errors.js';
+export {
+	createAuthError,
+	validateCurrentUser,
+	handleAuthError,
+	isAppCheckError
+} from './errors.js';
 
 // Provider utilities
-export { createGoogleProvider, createFacebookProvider, createAppleProvider } from './providers.js';
+export {
+	createGoogleProvider,
+	createFacebookProvider,
+	createAppleProvider,
+	createMicrosoftProvider,
+	createGithubProvider,
+	createTwitterProvider,
+	createAuthProvider,
+	registerAuthProvider,
+	unregisterAuthProvider,
+	getOAuthCredential,
+	toOAuthProviderType,
+	toFirebaseProviderId,
+	getProviderName,
+	getCredentialFromError,
+	prefersRedirectSignIn,
+	type FirekitAuthProvider,
+	type AuthProviderFactory
+} from './providers.js';
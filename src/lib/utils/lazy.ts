@@ -0,0 +1,29 @@
+/**
+ * Creates a stand-in for a singleton that is only created on first property access.
+ * Importing a module that exports such a singleton then starts no Firebase service,
+ * so `createFirekit()` and `configure()` calls made afterwards still apply.
+ * @param {() => T} create Creates the singleton
+ * @returns {T} Proxy forwarding to the singleton
+ */
+export function lazySingleton<T extends object>(create: () => T): T {
+	let instance: T | null = null;
+	const resolve = (): T => (instance ??= create());
+
+	return new Proxy({} as T, {
+		get(_, key) {
+			const target = resolve();
+			const value = Reflect.get(target, key, target);
+			// Methods are called on the singleton, not on the proxy
+			return typeof value === 'function' ? value.bind(target) : value;
+		},
+		set(_, key, value) {
+			return Reflect.set(resolve(), key, value);
+		},
+		has(_, key) {
+			return Reflect.has(resolve(), key);
+		},
+		getPrototypeOf() {
+			return Reflect.getPrototypeOf(resolve());
+		}
+	});
+}
@@ -1,4 +1,33 @@
-import { GoogleAuthProvider, FacebookAuthProvider, OAuthProvider } from 'firebase/auth';
+import {
+	GoogleAuthProvider,
+	FacebookAuthProvider,
+	GithubAuthProvider,
+	TwitterAuthProvider,
+	OAuthProvider,
+	SAMLAuthProvider,
+	PhoneAuthProvider,
+	type AuthCredential,
+	type AuthError,
+	type OAuthCredential,
+	type UserCredential
+} from 'firebase/auth';
+import type { OAuthProviderType, OAuthSignInOptions } from '../types/auth.js';
+
+/**
+ * Provider instance that can be used for popup and redirect sign-in
+ */
+export type FirekitAuthProvider =
+	| GoogleAuthProvider
+	| FacebookAuthProvider
+	| GithubAuthProvider
+	| TwitterAuthProvider
+	| OAuthProvider
+	| SAMLAuthProvider;
+
+/**
+ * Factory creating a fresh, configured provider instance for each sign-in
+ */
+export type AuthProviderFactory = () => FirekitAuthProvider;
 
 /**
  * Creates a configured Google Auth provider
@@ -31,3 +60,227 @@ export function createAppleProvider(): OAuthProvider {
 	provider.addScope('name');
 	return provider;
 }
+
+/**
+ * Creates a configured Microsoft Auth provider
+ * @returns {OAuthProvider} Configured Microsoft provider
+ */
+export function createMicrosoftProvider(): OAuthProvider {
+	const provider = new OAuthProvider('microsoft.com');
+	provider.addScope('email');
+	provider.addScope('profile');
+	return provider;
+}
+
+/**
+ * Creates a configured GitHub Auth provider
+ * @returns {GithubAuthProvider} Configured GitHub provider
+ */
+export function createGithubProvider(): GithubAuthProvider {
+	const provider = new GithubAuthProvider();
+	provider.addScope('user:email');
+	return provider;
+}
+
+/**
+ * Creates a configured Twitter Auth provider
+ * @returns {TwitterAuthProvider} Configured Twitter provider
+ */
+export function createTwitterProvider(): TwitterAuthProvider {
+	return new TwitterAuthProvider();
+}
+
+/** Built-in providers, overridable through registerAuthProvider */
+const BUILT_IN_PROVIDERS: Record<string, AuthProviderFactory> = {
+	google: createGoogleProvider,
+	facebook: createFacebookProvider,
+	apple: createAppleProvider,
+	microsoft: createMicrosoftProvider,
+	github: createGithubProvider,
+	twitter: createTwitterProvider
+};
+
+/** Firebase provider ids of the built-in providers */
+const FIREBASE_PROVIDER_IDS: Record<string, OAuthProviderType> = {
+	'google.com': 'google',
+	'facebook.com': 'facebook',
+	'apple.com': 'apple',
+	'microsoft.com': 'microsoft',
+	'github.com': 'github',
+	'twitter.com': 'twitter'
+};
+
+/** Display names of the built-in providers */
+const PROVIDER_NAMES: Record<string, string> = {
+	google: 'Google',
+	facebook: 'Facebook',
+	apple: 'Apple',
+	microsoft: 'Microsoft',
+	github: 'GitHub',
+	twitter: 'Twitter'
+};
+
+/** Custom-configured providers registered by the app */
+const providerRegistry = new Map<string, AuthProviderFactory>();
+
+/**
+ * Registers a custom-configured provider, replacing the built-in or previously
+ * registered provider with the same id
+ * @param {OAuthProviderType} providerId Provider id, e.g. 'microsoft' or 'oidc.my-idp'
+ * @param {AuthProviderFactory} factory Factory creating the configured provider
+ *
+ * @example
+ * ```typescript
+ * registerAuthProvider('microsoft', () => {
+ *   const provider = new OAuthProvider('microsoft.com');
+ *   provider.setCustomParameters({ tenant: 'my-tenant-id' });
+ *   return provider;
+ * });
+ * ```
+ */
+export function registerAuthProvider(
+	providerId: OAuthProviderType,
+	factory: AuthProviderFactory
+): void {
+	providerRegistry.set(providerId, factory);
+}
+
+/**
+ * Removes a registered provider, restoring the built-in one if any
+ * @param {OAuthProviderType} providerId Provider id
+ */
+export function unregisterAuthProvider(providerId: OAuthProviderType): void {
+	providerRegistry.delete(providerId);
+}
+
+/**
+ * Creates the provider for a provider id, applying per-call scopes and custom parameters.
+ * Registered providers take precedence over the built-in ones; unregistered `oidc.*`
+ * and `saml.*` ids get a plain OIDC or SAML provider.
+ * @param {OAuthProviderType} providerId Provider id
+ * @param {OAuthSignInOptions} [options] Scopes and custom parameters
+ * @returns {FirekitAuthProvider} Configured provider
+ * @throws {Error} If the provider id is unknown
+ */
+export function createAuthProvider(
+	providerId: OAuthProviderType,
+	options: Pick<OAuthSignInOptions, 'scopes' | 'customParameters'> = {}
+): FirekitAuthProvider {
+	const factory = providerRegistry.get(providerId) ?? BUILT_IN_PROVIDERS[providerId];
+	let provider: FirekitAuthProvider;
+
+	if (factory) {
+		provider = factory();
+	} else if (providerId.startsWith('oidc.')) {
+		provider = new OAuthProvider(providerId);
+	} else if (providerId.startsWith('saml.')) {
+		provider = new SAMLAuthProvider(providerId);
+	} else {
+		throw new Error(`Unknown auth provider: ${providerId}`);
+	}
+
+	if (options.scopes?.length) {
+		if (provider instanceof SAMLAuthProvider) {
+			console.warn(`Scopes are not supported by SAML provider ${providerId}`);
+		} else {
+			for (const scope of options.scopes) {
+				provider.addScope(scope);
+			}
+		}
+	}
+
+	if (options.customParameters) {
+		provider.setCustomParameters({
+			...provider.getCustomParameters(),
+			...options.customParameters
+		});
+	}
+
+	return provider;
+}
+
+/**
+ * Extracts the OAuth credential (access token, ID token, secret) from a sign-in result
+ * @param {OAuthProviderType} providerId Provider id used for the sign-in
+ * @param {UserCredential} result Sign-in result
+ * @returns {OAuthCredential | null} OAuth credential, or null for SAML and unknown providers
+ */
+export function getOAuthCredential(
+	providerId: OAuthProviderType,
+	result: UserCredential
+): OAuthCredential | null {
+	if (providerId.startsWith('saml.')) return null;
+
+	try {
+		return providerId === 'twitter'
+			? TwitterAuthProvider.credentialFromResult(result)
+			: OAuthProvider.credentialFromResult(result);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Maps a Firebase provider id (e.g. 'google.com') to its provider type
+ * @param {string} firebaseProviderId Firebase provider id
+ * @returns {OAuthProviderType | null} Provider type, or null for non-OAuth providers
+ */
+export function toOAuthProviderType(firebaseProviderId: string): OAuthProviderType | null {
+	if (firebaseProviderId.startsWith('oidc.') || firebaseProviderId.startsWith('saml.')) {
+		return firebaseProviderId as OAuthProviderType;
+	}
+	return FIREBASE_PROVIDER_IDS[firebaseProviderId] ?? null;
+}
+
+/**
+ * Maps a provider type (e.g. 'google') to its Firebase provider id.
+ * Firebase provider ids such as 'password', 'phone' or 'google.com' are returned as is.
+ * @param {string} providerId Provider type or Firebase provider id
+ * @returns {string} Firebase provider id
+ */
+export function toFirebaseProviderId(providerId: string): string {
+	const entry = Object.entries(FIREBASE_PROVIDER_IDS).find(([, type]) => type === providerId);
+	return entry?.[0] ?? providerId;
+}
+
+/**
+ * Gets the display name of a provider, e.g. for sign-in buttons.
+ * OIDC and SAML providers are named after their id, e.g. 'oidc.acme' is 'acme'.
+ * @param {OAuthProviderType} providerId Provider id
+ * @returns {string} Display name
+ */
+export function getProviderName(providerId: OAuthProviderType): string {
+	return PROVIDER_NAMES[providerId] ?? providerId.replace(/^(oidc|saml)\./, '');
+}
+
+/**
+ * Extracts the credential that could not be used from an auth error,
+ * e.g. `auth/account-exists-with-different-credential`
+ * @param {AuthError} error Firebase auth error
+ * @returns {AuthCredential | null} Pending credential, if the error carries one
+ */
+export function getCredentialFromError(error: AuthError): AuthCredential | null {
+	try {
+		return OAuthProvider.credentialFromError(error) ?? PhoneAuthProvider.credentialFromError(error);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Detects environments where sign-in popups are unreliable:
+ * iOS home screen apps and embedded webviews
+ * @returns {boolean} Whether redirect sign-in should be preferred
+ */
+export function prefersRedirectSignIn(): boolean {
+	if (typeof window === 'undefined' || typeof navigator === 'undefined') return false;
+
+	const userAgent = navigator.userAgent;
+	const isIOS = /iPad|iPhone|iPod/.test(userAgent);
+	const isStandalone =
+		(navigator as Navigator & { standalone?: boolean }).standalone === true ||
+		window.matchMedia?.('(display-mode: standalone)').matches;
+	const isWebView = /; wv\)|FBAN|FBAV|Instagram|Line\/|Twitter/i.test(userAgent);
+
+	return (isIOS && isStandalone) || isWebView;
+}
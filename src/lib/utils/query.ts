@@ -0,0 +1,57 @@
+import {
+	where,
+	orderBy,
+	limit,
+	startAt,
+	startAfter,
+	endAt,
+	endBefore,
+	type QueryConstraint
+} from 'firebase/firestore';
+import type { QueryBuilder, FirestoreOperator } from '../types/collection.js';
+
+/**
+ * Query builder implementation for type-safe query construction
+ */
+export class FirekitQueryBuilder<T> implements QueryBuilder<T> {
+	private constraints: QueryConstraint[] = [];
+
+	where(field: string, operator: FirestoreOperator, value: any): QueryBuilder<T> {
+		this.constraints.push(where(field, operator, value));
+		return this;
+	}
+
+	orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): QueryBuilder<T> {
+		this.constraints.push(orderBy(field, direction));
+		return this;
+	}
+
+	limit(count: number): QueryBuilder<T> {
+		this.constraints.push(limit(count));
+		return this;
+	}
+
+	startAt(...values: any[]): QueryBuilder<T> {
+		this.constraints.push(startAt(...values));
+		return this;
+	}
+
+	startAfter(...values: any[]): QueryBuilder<T> {
+		this.constraints.push(startAfter(...values));
+		return this;
+	}
+
+	endAt(...values: any[]): QueryBuilder<T> {
+		this.constraints.push(endAt(...values));
+		return this;
+	}
+
+	endBefore(...values: any[]): QueryBuilder<T> {
+		this.constraints.push(endBefore(...values));
+		return this;
+	}
+
+	build(): QueryConstraint[] {
+		return [...this.constraints];
+	}
+}
@@ -0,0 +1,81 @@
+import {
+	Bytes,
+	DocumentReference,
+	GeoPoint,
+	Timestamp,
+	doc,
+	type Firestore
+} from 'firebase/firestore';
+import type { SerializedFirestoreValue } from '../types/server.js';
+
+/**
+ * Checks whether a value is a tagged serialized Firestore value
+ * @param {unknown} value Value to check
+ * @returns {boolean} True if the value was produced by `serializeFirestoreValue`
+ */
+function isSerializedFirestoreValue(value: unknown): value is SerializedFirestoreValue {
+	return typeof value === 'object' && value !== null && '__firekit' in value;
+}
+
+/**
+ * Converts Firestore data into a JSON-safe form that can cross the server/client boundary.
+ * Timestamps, GeoPoints, document references and bytes become tagged plain objects.
+ * @param {unknown} value Firestore data
+ * @returns {unknown} Serialized data
+ */
+export function serializeFirestoreValue(value: unknown): unknown {
+	if (value instanceof Timestamp) {
+		return { __firekit: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+	}
+	if (value instanceof GeoPoint) {
+		return { __firekit: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+	}
+	if (value instanceof DocumentReference) {
+		return { __firekit: 'reference', path: value.path };
+	}
+	if (value instanceof Bytes) {
+		return { __firekit: 'bytes', base64: value.toBase64() };
+	}
+	if (Array.isArray(value)) {
+		return value.map(serializeFirestoreValue);
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, serializeFirestoreValue(entry)])
+		);
+	}
+	return value;
+}
+
+/**
+ * Restores Firestore data produced by `serializeFirestoreValue`.
+ * @param {unknown} value Serialized data
+ * @param {Firestore} firestore Firestore instance used to recreate document references
+ * @returns {unknown} Firestore data
+ */
+export function deserializeFirestoreValue(value: unknown, firestore: Firestore): unknown {
+	if (isSerializedFirestoreValue(value)) {
+		switch (value.__firekit) {
+			case 'timestamp':
+				return new Timestamp(value.seconds, value.nanoseconds);
+			case 'geopoint':
+				return new GeoPoint(value.latitude, value.longitude);
+			case 'reference':
+				return doc(firestore, value.path);
+			case 'bytes':
+				return Bytes.fromBase64String(value.base64);
+		}
+	}
+	if (Array.isArray(value)) {
+		return value.map((entry) => deserializeFirestoreValue(entry, firestore));
+	}
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [
+				key,
+				deserializeFirestoreValue(entry, firestore)
+			])
+		);
+	}
+	return value;
+}
@@ -27,6 +27,7 @@ export function mapFirebaseUserToProfile(user: User): UserProfile {
 			email: provider.email,
 			phoneNumber: provider.phoneNumber,
 			photoURL: provider.photoURL
-		}))
+		})),
+		tenantId: user.tenantId
 	};
 }
@@ -0,0 +1,56 @@
+import { AuthErrorCode, FirekitAuthError } from '../types/auth.js';
+
+/** Minimum password length accepted by Firebase Authentication */
+export const MIN_PASSWORD_LENGTH = 6;
+
+/** Loose email format check; Firebase performs the authoritative one */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Credentials entered in a sign-in or registration form
+ */
+export interface CredentialsInput {
+	email: string;
+	password: string;
+	/** Repeated password, checked when given */
+	confirmPassword?: string;
+	/** Minimum password length, checked when given, e.g. on registration */
+	minPasswordLength?: number;
+}
+
+/**
+ * Validates form credentials before they are sent to Firebase.
+ * Errors carry the Firebase error codes, so their friendly messages can be localized the same way.
+ * @param {CredentialsInput} input Entered credentials
+ * @returns {FirekitAuthError | null} First validation error, or null if the credentials are valid
+ *
+ * @example
+ * ```typescript
+ * const error = validateCredentials({ email, password, confirmPassword, minPasswordLength: 8 });
+ * if (error) message = error.getFriendlyMessage();
+ * ```
+ */
+export function validateCredentials(input: CredentialsInput): FirekitAuthError | null {
+	const email = input.email.trim();
+
+	if (!email) {
+		return new FirekitAuthError(AuthErrorCode.MISSING_EMAIL, 'Email address is required.');
+	}
+	if (!EMAIL_PATTERN.test(email)) {
+		return new FirekitAuthError(AuthErrorCode.INVALID_EMAIL, 'Email address is invalid.');
+	}
+	if (!input.password) {
+		return new FirekitAuthError(AuthErrorCode.MISSING_PASSWORD, 'Password is required.');
+	}
+	if (input.minPasswordLength && input.password.length < input.minPasswordLength) {
+		return new FirekitAuthError(
+			AuthErrorCode.PASSWORD_DOES_NOT_MEET_REQUIREMENTS,
+			`Password must be at least ${input.minPasswordLength} characters long.`
+		);
+	}
+	if (input.confirmPassword !== undefined && input.confirmPassword !== input.password) {
+		return new FirekitAuthError(AuthErrorCode.PASSWORDS_DO_NOT_MATCH, 'Passwords do not match.');
+	}
+
+	return null;
+}